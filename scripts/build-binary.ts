@@ -2,6 +2,21 @@
 
 import { mkdir } from "node:fs/promises";
 import { join } from "node:path";
+import {
+  fetchTemplatesWithSource,
+  renderTemplateFetchReport,
+} from "../src/data/fetch-pipeline";
+import {
+  DEFAULT_TEMPLATE_REF,
+  fetchCommitSha,
+  resolveGitHubEndpoint,
+} from "../src/data/github-client";
+import {
+  buildTemplateSnapshot,
+  type TemplateSnapshot,
+} from "../src/data/template-snapshot";
+import { createGitHubTemplateSource } from "../src/data/template-source";
+import { buildCacheIndex } from "../src/domain/classification";
 
 declare const Bun: typeof import("bun");
 
@@ -21,6 +36,14 @@ interface PackageJsonLike {
   version?: string;
 }
 
+interface BuildArgs {
+  // Ref to embed as an offline template snapshot, or null to build without one.
+  snapshotRef: string | null;
+  targets: string[];
+}
+
+const SNAPSHOT_FLAG = "--snapshot";
+
 function isSupportedTarget(target: string): target is SupportedTarget {
   return SUPPORTED_TARGET_SET.has(target);
 }
@@ -69,12 +92,69 @@ function parseTargets(
   return validatedTargets;
 }
 
+function parseBuildArgs(argv: string[]): BuildArgs {
+  const args: BuildArgs = { snapshotRef: null, targets: [] };
+  for (const arg of argv) {
+    if (arg === SNAPSHOT_FLAG) {
+      args.snapshotRef = DEFAULT_TEMPLATE_REF;
+    } else if (arg.startsWith(`${SNAPSHOT_FLAG}=`)) {
+      args.snapshotRef = arg.slice(SNAPSHOT_FLAG.length + 1);
+    } else if (arg.startsWith("--")) {
+      throw new Error(
+        `Unknown option "${arg}". Supported: ${SNAPSHOT_FLAG}[=ref]`
+      );
+    } else {
+      args.targets.push(arg);
+    }
+  }
+  return args;
+}
+
+async function createSnapshot(ref: string): Promise<TemplateSnapshot> {
+  const endpoint = resolveGitHubEndpoint();
+  const source = createGitHubTemplateSource(endpoint);
+  const commit = await fetchCommitSha(ref, { endpoint });
+  const entries = await source.listTemplates(commit);
+  if (entries.notModified) {
+    throw new Error(`Unexpected 304 for template index "${ref}"`);
+  }
+
+  const index = {
+    ...buildCacheIndex(entries.value, ref),
+    origin: source.origin,
+  };
+  const report = await fetchTemplatesWithSource(
+    index.templates,
+    async (template, signal) => {
+      const response = await source.fetchTemplate(template.path, commit, {
+        signal,
+      });
+      if (response.notModified) {
+        throw new Error(`Unexpected 304 for template ${template.id}`);
+      }
+      return response.value;
+    }
+  );
+  // A partial snapshot would fail later for whichever template is missing, so refuse to ship one.
+  if (report.failures.length > 0) {
+    throw new Error(
+      `Snapshot incomplete. ${renderTemplateFetchReport(report)}`
+    );
+  }
+
+  return buildTemplateSnapshot(index, commit, report.fetched);
+}
+
 function getOutputPath(target: SupportedTarget): string {
   const extension = target.includes("windows") ? ".exe" : "";
   return join("dist", `ignore-hub-${target}${extension}`);
 }
 
-async function buildOne(target: SupportedTarget, version: string) {
+async function buildOne(
+  target: SupportedTarget,
+  version: string,
+  snapshot: TemplateSnapshot | null
+) {
   const outputPath = getOutputPath(target);
   const result = await Bun.build({
     entrypoints: ["./src/index.tsx"],
@@ -83,6 +163,9 @@ async function buildOne(target: SupportedTarget, version: string) {
     sourcemap: "none",
     define: {
       __IGNORE_HUB_VERSION__: JSON.stringify(version),
+      ...(snapshot
+        ? { __IGNORE_HUB_SNAPSHOT__: JSON.stringify(snapshot) }
+        : {}),
     },
     compile: {
       outfile: outputPath,
@@ -104,7 +187,8 @@ async function main() {
   ).json()) as PackageJsonLike;
   const version = packageJson.version ?? "unknown";
   const currentTarget = getCurrentTarget();
-  const targets = parseTargets(process.argv.slice(2), process.env.IH_TARGETS);
+  const args = parseBuildArgs(process.argv.slice(2));
+  const targets = parseTargets(args.targets, process.env.IH_TARGETS);
 
   for (const target of targets) {
     if (target !== currentTarget) {
@@ -118,10 +202,18 @@ async function main() {
     }
   }
 
+  let snapshot: TemplateSnapshot | null = null;
+  if (args.snapshotRef) {
+    snapshot = await createSnapshot(args.snapshotRef);
+    process.stdout.write(
+      `embedding ${snapshot.index.templates.length} templates from ${args.snapshotRef} (${snapshot.commit})\n`
+    );
+  }
+
   await mkdir("dist", { recursive: true });
 
   for (const target of targets) {
-    const outputPath = await buildOne(target, version);
+    const outputPath = await buildOne(target, version, snapshot);
     process.stdout.write(`built ${outputPath}\n`);
   }
 }
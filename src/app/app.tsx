@@ -1,4 +1,5 @@
-import { readFile, writeFile } from "node:fs/promises";
+import { writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
 import { TextAttributes } from "@opentui/core";
 import {
   useKeyboard,
@@ -6,12 +7,49 @@ import {
   useTerminalDimensions,
 } from "@opentui/react";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { loadTemplateIndex, resolveCacheFilePath } from "../data/cache-store";
-import { fetchTemplateSource } from "../data/github-client";
-import { mergeGitignore } from "../domain/merge-gitignore";
+import { readExistingOutput } from "../cli/direct-generation";
+import {
+  collectGitignoreImpact,
+  renderImpactReport,
+} from "../cli/impact-report";
+import {
+  buildBlockMetadata,
+  loadPreviousBlockBody,
+} from "../data/block-metadata";
+import {
+  findNewTemplates,
+  loadTemplateIndex,
+  loadTemplateSource,
+  resolveCacheDir,
+  resolveCacheFilePath,
+  writeCachedBlockBody,
+} from "../data/cache-store";
+import {
+  describeTemplateFetchFailure,
+  fetchTemplatesWithSource,
+  findProxyFailure,
+  findRateLimitFailure,
+  formatError,
+} from "../data/fetch-pipeline";
+import {
+  buildTemplateLockfile,
+  resolveLockfilePath,
+  writeTemplateLockfile,
+} from "../data/lockfile";
+import {
+  describeTemplateRegistry,
+  resolveTemplateRegistries,
+} from "../data/registries";
+import { createGitHubTemplateSources } from "../data/template-source";
+import { formatDuration, resolveCacheMaxAgeMs } from "../domain/duration";
+import { mergeGitignoreWithEdits } from "../domain/merge-gitignore";
+import { describeRuleConflict } from "../domain/rule-order";
 import type {
   CliOptions,
+  GitHubTemplateRegistry,
+  IndexLoadResult,
   TemplateMeta,
+  TemplateSourceResolver,
   TemplateWithSource,
 } from "../domain/types";
 import { filterItems, MultiSelectStep } from "./steps/multi-select-step";
@@ -30,13 +68,6 @@ const C = {
 
 export type WizardStep = "select" | "preview" | "done";
 
-function formatError(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return String(error);
-}
-
 export function moveCursor(
   current: number,
   direction: "up" | "down",
@@ -101,26 +132,58 @@ function clampCursorIndex(cursor: number, itemCount: number): number {
   return Math.max(0, Math.min(cursor, itemCount - 1));
 }
 
-async function readExistingOutput(path: string): Promise<string | null> {
-  try {
-    return await readFile(path, "utf8");
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-      return null;
-    }
-    throw error;
-  }
-}
-
 interface AppProps {
   options: CliOptions;
+  templateSources?: TemplateSourceResolver;
 }
 
-export function App({ options }: AppProps) {
+export function App({ options, templateSources }: AppProps) {
   const renderer = useRenderer();
   const { height, width } = useTerminalDimensions();
 
+  const registries = useMemo(
+    () =>
+      resolveTemplateRegistries({
+        apiUrl: options.apiUrl,
+        rawUrl: options.rawUrl,
+        ref: options.ref,
+        registries: options.registries,
+        repo: options.repo,
+        sourceDir: options.sourceDir,
+      }),
+    [
+      options.apiUrl,
+      options.rawUrl,
+      options.ref,
+      options.registries,
+      options.repo,
+      options.sourceDir,
+    ]
+  );
+  const sources = useMemo(
+    () =>
+      templateSources ?? createGitHubTemplateSources({ proxy: options.proxy }),
+    [options.proxy, templateSources]
+  );
+  const cacheDir = useMemo(
+    () => resolveCacheDir(options.cacheDir),
+    [options.cacheDir]
+  );
+  const cacheFilePath = useMemo(() => {
+    const githubRegistry = registries.find(
+      (registry): registry is GitHubTemplateRegistry =>
+        registry.kind === "github"
+    );
+    return githubRegistry
+      ? resolveCacheFilePath(
+          githubRegistry.ref ?? options.ref,
+          sources(githubRegistry).origin,
+          cacheDir
+        )
+      : resolveCacheFilePath(options.ref, undefined, cacheDir);
+  }, [cacheDir, options.ref, registries, sources]);
   const [allTemplates, setAllTemplates] = useState<TemplateMeta[]>([]);
+  const [sourceRef, setSourceRef] = useState(options.ref);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [cursor, setCursor] = useState(0);
   const [searchQuery, setSearchQuery] = useState("");
@@ -136,6 +199,19 @@ export function App({ options }: AppProps) {
     "idle" | "loading" | "ready" | "error"
   >("idle");
   const [previewContent, setPreviewContent] = useState("");
+  const [previewGeneratedBody, setPreviewGeneratedBody] = useState("");
+  const [previewRuleConflicts, setPreviewRuleConflicts] = useState<string[]>(
+    []
+  );
+  const [previewExistingContent, setPreviewExistingContent] = useState<
+    string | null
+  >(null);
+  // Walking the project is slow in big trees, so it waits for the Impact panel.
+  const [previewImpact, setPreviewImpact] = useState<string[] | null>(null);
+  const [showImpact, setShowImpact] = useState(false);
+  const [previewTemplates, setPreviewTemplates] = useState<
+    TemplateWithSource[]
+  >([]);
   const [previewError, setPreviewError] = useState<string | null>(null);
   const [failureNames, setFailureNames] = useState<string[]>([]);
   const [isWriting, setIsWriting] = useState(false);
@@ -155,6 +231,11 @@ export function App({ options }: AppProps) {
   const invalidatePreview = useCallback(() => {
     setPreviewStatus("idle");
     setPreviewContent("");
+    setPreviewGeneratedBody("");
+    setPreviewRuleConflicts([]);
+    setPreviewExistingContent(null);
+    setPreviewImpact(null);
+    setPreviewTemplates([]);
     setPreviewError(null);
     setFailureNames([]);
   }, []);
@@ -167,48 +248,134 @@ export function App({ options }: AppProps) {
     }
   }, [renderer, stdoutPayload]);
 
-  const loadIndex = useCallback(async (refresh: boolean) => {
-    setLoadStatus("loading");
-    setFatalError(null);
-    setStatusMessage(
-      refresh
-        ? "Refreshing template index from GitHub..."
-        : "Loading template index..."
+  const maxAgeMs = useMemo(
+    () => resolveCacheMaxAgeMs(options.cacheMaxAge),
+    [options.cacheMaxAge]
+  );
+
+  const applyIndexResult = useCallback((result: IndexLoadResult) => {
+    const templates = result.index.templates
+      .slice()
+      .sort((a, b) =>
+        a.name.localeCompare(b.name, undefined, { sensitivity: "base" })
+      );
+    const validIds = new Set(templates.map((t) => t.id));
+
+    setAllTemplates(templates);
+    setSourceRef(result.index.sourceRef);
+    setSelectedIds(
+      (current) => new Set([...current].filter((id) => validIds.has(id)))
     );
+    setCursor((c) => clampCursorIndex(c, templates.length));
+  }, []);
 
-    try {
-      const result = await loadTemplateIndex(refresh);
-      const templates = result.index.templates
-        .slice()
-        .sort((a, b) =>
-          a.name.localeCompare(b.name, undefined, { sensitivity: "base" })
-        );
-      const validIds = new Set(templates.map((t) => t.id));
+  // The stale index stays usable while the refresh runs; selections survive the swap.
+  const refreshStaleIndex = useCallback(
+    (previous: TemplateMeta[]) => {
+      loadTemplateIndex({
+        cacheDir,
+        maxAgeMs,
+        refresh: true,
+        offline: false,
+        registries,
+        retry: { retries: options.retries, timeoutMs: options.timeoutMs },
+        templateSources: sources,
+      })
+        .then((result) => {
+          if (result.warning) {
+            setStatusMessage(
+              `Background refresh failed: ${result.warning} Ctrl+R to retry.`
+            );
+            return;
+          }
+          applyIndexResult(result);
+          const added = findNewTemplates(previous, result.index.templates);
+          setStatusMessage(
+            added.length > 0
+              ? `Template index refreshed: ${added.length} new template(s) available.`
+              : "Template index refreshed in the background. No new templates."
+          );
+        })
+        .catch((error: unknown) => {
+          setStatusMessage(
+            `Background refresh failed: ${formatError(error)} Ctrl+R to retry.`
+          );
+        });
+    },
+    [
+      applyIndexResult,
+      cacheDir,
+      maxAgeMs,
+      options.retries,
+      options.timeoutMs,
+      registries,
+      sources,
+    ]
+  );
 
-      setAllTemplates(templates);
-      setSelectedIds(
-        (current) => new Set([...current].filter((id) => validIds.has(id)))
+  const loadIndex = useCallback(
+    async (refresh: boolean) => {
+      setLoadStatus("loading");
+      setFatalError(null);
+      setStatusMessage(
+        refresh
+          ? "Refreshing template index from GitHub..."
+          : "Loading template index..."
       );
-      setCursor((c) => clampCursorIndex(c, templates.length));
-      setLoadStatus("ready");
-
-      if (result.warning) {
-        setStatusMessage(`${result.warning} Ctrl+R to retry.`);
-      } else if (result.source === "network") {
-        setStatusMessage(
-          "Loaded latest templates from GitHub. Ctrl+R to refresh."
-        );
-      } else {
-        setStatusMessage(
-          "Loaded templates from cache. Ctrl+R to refresh from network."
-        );
+
+      try {
+        const result = await loadTemplateIndex({
+          cacheDir,
+          maxAgeMs,
+          refresh,
+          offline: options.offline,
+          registries,
+          retry: { retries: options.retries, timeoutMs: options.timeoutMs },
+          templateSources: sources,
+        });
+        applyIndexResult(result);
+        setLoadStatus("ready");
+
+        if (result.staleAgeMs !== undefined && !options.offline) {
+          setStatusMessage(
+            `Template index is ${formatDuration(result.staleAgeMs)} old. Refreshing in the background...`
+          );
+          refreshStaleIndex(result.index.templates);
+        } else if (result.warning) {
+          setStatusMessage(`${result.warning} Ctrl+R to retry.`);
+        } else if (result.source === "local") {
+          setStatusMessage(
+            "Loaded templates from local directory. Ctrl+R to rescan."
+          );
+        } else if (result.source === "network") {
+          setStatusMessage(
+            "Loaded latest templates from GitHub. Ctrl+R to refresh."
+          );
+        } else if (options.offline) {
+          setStatusMessage("Loaded templates from cache (offline mode).");
+        } else {
+          setStatusMessage(
+            "Loaded templates from cache. Ctrl+R to refresh from network."
+          );
+        }
+      } catch (error) {
+        setLoadStatus("error");
+        setFatalError(formatError(error));
+        setStatusMessage("Failed to load templates. Press Enter to retry.");
       }
-    } catch (error) {
-      setLoadStatus("error");
-      setFatalError(formatError(error));
-      setStatusMessage("Failed to load templates. Press Enter to retry.");
-    }
-  }, []);
+    },
+    [
+      applyIndexResult,
+      cacheDir,
+      maxAgeMs,
+      options.offline,
+      options.retries,
+      options.timeoutMs,
+      refreshStaleIndex,
+      registries,
+      sources,
+    ]
+  );
 
   useEffect(() => {
     loadIndex(options.refresh);
@@ -225,42 +392,69 @@ export function App({ options }: AppProps) {
     setFailureNames([]);
     setStatusMessage("Building preview from selected templates...");
 
-    const templatesWithSource: TemplateWithSource[] = [];
-    const failedTemplates: string[] = [];
-
-    for (const template of selectedTemplates) {
-      try {
-        const source = await fetchTemplateSource(template.path);
-        templatesWithSource.push({ meta: template, source });
-      } catch {
-        failedTemplates.push(template.name);
+    const report = await fetchTemplatesWithSource(
+      selectedTemplates,
+      (template, signal) =>
+        loadTemplateSource(template, {
+          cacheDir,
+          offline: options.offline,
+          registries,
+          signal,
+          templateSources: sources,
+        }),
+      {
+        concurrency: options.concurrency,
+        retries: options.retries,
+        timeoutMs: options.timeoutMs,
       }
-    }
+    );
+    const templatesWithSource = report.fetched;
 
-    if (failedTemplates.length > 0) {
-      setFailureNames(failedTemplates);
+    if (report.failures.length > 0) {
+      const sharedFailure =
+        findRateLimitFailure(report) ?? findProxyFailure(report);
+      setFailureNames(
+        report.failures.map((failure) => describeTemplateFetchFailure(failure))
+      );
       setPreviewStatus("error");
       setPreviewError(
-        `Failed to download ${failedTemplates.length} template(s). Press Enter to retry.`
+        options.offline
+          ? `${report.failures.length} template(s) are not cached for offline use.`
+          : `Downloaded ${report.fetched.length} of ${selectedTemplates.length} template(s). Press Enter to retry the failed ones.`
       );
       setStatusMessage(
-        "Template download failed. Press Enter to retry, Backspace to go back."
+        sharedFailure
+          ? `${sharedFailure.message} Backspace to go back.`
+          : "Template download failed. Press Enter to retry, Backspace to go back."
       );
       return;
     }
 
     try {
       const existingContent = await readExistingOutput(options.output);
-      const merged = mergeGitignore({
+      const merged = mergeGitignoreWithEdits({
+        dedupe: options.dedupe,
         existingContent,
         templates: templatesWithSource,
         includeWatermark: options.includeWatermark,
+        metadata: await buildBlockMetadata(
+          { dedupe: options.dedupe },
+          registries
+        ),
+        previousBody: await loadPreviousBlockBody(existingContent, cacheDir),
         useSimpleSectionSeparator: options.useSimpleSectionSeparator,
       });
-      setPreviewContent(merged);
+      setPreviewContent(merged.content);
+      setPreviewGeneratedBody(merged.generatedBody);
+      setPreviewRuleConflicts(merged.ruleConflicts.map(describeRuleConflict));
+      setPreviewExistingContent(existingContent);
+      setPreviewImpact(null);
+      setPreviewTemplates(templatesWithSource);
       setPreviewStatus("ready");
       setStatusMessage(
-        "Preview ready. Press Enter to generate, Backspace to go back."
+        merged.conflicts > 0
+          ? `${merged.conflicts} of your edits conflict with upstream and are marked with <<<<<<<. Press Enter to write them, Backspace to go back.`
+          : "Preview ready. Press Enter to generate, Backspace to go back."
       );
     } catch (error) {
       setPreviewStatus("error");
@@ -268,10 +462,47 @@ export function App({ options }: AppProps) {
       setStatusMessage("Failed to build preview. Press Enter to retry.");
     }
   }, [
+    cacheDir,
     options.output,
+    options.offline,
+    options.concurrency,
+    options.retries,
+    options.timeoutMs,
+    registries,
+    options.dedupe,
     options.includeWatermark,
     options.useSimpleSectionSeparator,
     selectedTemplates,
+    sources,
+  ]);
+
+  useEffect(() => {
+    if (!showImpact || previewStatus !== "ready" || previewImpact !== null) {
+      return;
+    }
+    let cancelled = false;
+    collectGitignoreImpact(
+      dirname(options.output),
+      previewExistingContent,
+      previewContent
+    )
+      .then((report) => renderImpactReport(report))
+      .catch((error: unknown) => [`Impact failed: ${formatError(error)}`])
+      .then((lines) => {
+        if (!cancelled) {
+          setPreviewImpact(lines);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    options.output,
+    previewContent,
+    previewExistingContent,
+    previewImpact,
+    previewStatus,
+    showImpact,
   ]);
 
   const generateOutput = useCallback(async () => {
@@ -292,6 +523,18 @@ export function App({ options }: AppProps) {
         setDoneMessage("Generation complete. Output will be printed on exit.");
       } else {
         await writeFile(options.output, previewContent, "utf8");
+        await writeCachedBlockBody(previewGeneratedBody, cacheDir);
+        await writeTemplateLockfile(
+          resolveLockfilePath(options.output),
+          buildTemplateLockfile({
+            dedupe: options.dedupe,
+            output: previewContent,
+            sourceRef,
+            templates: previewTemplates,
+            includeWatermark: options.includeWatermark,
+            useSimpleSectionSeparator: options.useSimpleSectionSeparator,
+          })
+        );
         setDoneMessage(`Generated .gitignore saved to ${options.output}`);
       }
       setStep("done");
@@ -302,7 +545,27 @@ export function App({ options }: AppProps) {
     } finally {
       setIsWriting(false);
     }
-  }, [options.output, options.stdout, previewContent, previewStatus]);
+  }, [
+    options.output,
+    options.stdout,
+    sourceRef,
+    options.dedupe,
+    options.includeWatermark,
+    options.useSimpleSectionSeparator,
+    cacheDir,
+    previewContent,
+    previewGeneratedBody,
+    previewStatus,
+    previewTemplates,
+  ]);
+
+  const confirmPreview = useCallback(() => {
+    if (previewStatus === "ready") {
+      generateOutput();
+    } else if (previewStatus === "error" || previewStatus === "idle") {
+      buildPreview();
+    }
+  }, [buildPreview, generateOutput, previewStatus]);
 
   useKeyboard(
     (key) => {
@@ -327,6 +590,10 @@ export function App({ options }: AppProps) {
           loadStatus !== "loading" &&
           !isWriting
         ) {
+          if (options.offline) {
+            setStatusMessage("Offline mode: refresh from network is disabled.");
+            return true;
+          }
           invalidatePreview();
           loadIndex(true);
           return true;
@@ -355,6 +622,14 @@ export function App({ options }: AppProps) {
         return true;
       };
 
+      const handleImpactToggle = (): boolean => {
+        if (previewStatus !== "ready" || key.name !== "i") {
+          return false;
+        }
+        setShowImpact((shown) => !shown);
+        return true;
+      };
+
       const shouldHandlePreviewStep = (): boolean => {
         if (step !== "preview") {
           return false;
@@ -364,12 +639,11 @@ export function App({ options }: AppProps) {
           setStatusMessage("Back to template selection.");
           return true;
         }
+        if (handleImpactToggle()) {
+          return true;
+        }
         if (isEnterKey(key.name)) {
-          if (previewStatus === "ready") {
-            generateOutput();
-          } else if (previewStatus === "error" || previewStatus === "idle") {
-            buildPreview();
-          }
+          confirmPreview();
         }
         return true;
       };
@@ -513,11 +787,14 @@ export function App({ options }: AppProps) {
       return (
         <PreviewStep
           failureNames={failureNames}
+          impactLines={previewImpact}
           outputPath={options.output}
           previewContent={previewContent}
           previewError={previewError}
           previewStatus={previewStatus}
+          ruleConflicts={previewRuleConflicts}
           selectedCount={selectedIds.size}
+          showImpact={showImpact}
           stdout={options.stdout}
         />
       );
@@ -561,10 +838,20 @@ export function App({ options }: AppProps) {
           Ignore Hub
         </text>
         <text fg={C.dim}>
-          Source: <span fg={C.muted}>github/gitignore</span> (Root + Global)
+          {registries.length > 1 ? "Sources: " : "Source: "}
+          <span fg={C.muted}>
+            {registries
+              .map((registry) =>
+                registries.length > 1
+                  ? `${registry.name}: ${describeTemplateRegistry(registry, sources)}`
+                  : describeTemplateRegistry(registry, sources)
+              )
+              .join(", ")}
+          </span>{" "}
+          (Root + Global + community)
         </text>
         <text fg={C.dim}>
-          Cache: <span fg={C.muted}>{resolveCacheFilePath()}</span>
+          Cache: <span fg={C.muted}>{cacheFilePath}</span>
         </text>
       </box>
 
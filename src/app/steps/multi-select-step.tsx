@@ -8,10 +8,12 @@ const C = {
   dim: "#999999",
   dimBorder: "#444444",
   selectedName: "#f6f6f6",
+  source: "#7098d4",
   badge: {
     language: "#5fb5be",
     framework: "#ed9cc2",
     global: "#e7d38f",
+    community: "#b39ddb",
   } as Record<TemplateKind, string>,
 };
 
@@ -34,6 +36,7 @@ const KIND_LABEL: Record<TemplateKind, string> = {
   language: "lang",
   framework: "fw",
   global: "global",
+  community: "comm",
 };
 
 export function filterItems(
@@ -45,7 +48,8 @@ export function filterItems(
     return items;
   }
   return items.filter((t) => {
-    const haystack = `${t.name} ${t.id} ${t.path} ${t.kind}`.toLowerCase();
+    const haystack =
+      `${t.name} ${t.id} ${t.path} ${t.kind} ${t.category ?? ""} ${t.source ?? ""}`.toLowerCase();
     return haystack.includes(q);
   });
 }
@@ -85,12 +89,15 @@ export function MultiSelectStep({
     prefix: string,
     checkbox: string,
     name: string,
-    kind: TemplateKind
+    kind: TemplateKind,
+    source: string | undefined
   ) {
     const badge = KIND_LABEL[kind];
+    const sourceBadge = source ? `${source} ` : "";
     const left = `${prefix} ${checkbox} ${name}`;
     // badge rendered as "lang" / "fw" / "global" - no brackets to keep it clean
-    const availableForLeft = maxLineWidth - badge.length - 1;
+    const availableForLeft =
+      maxLineWidth - sourceBadge.length - badge.length - 1;
 
     let truncatedLeft: string;
     if (left.length <= availableForLeft) {
@@ -101,9 +108,10 @@ export function MultiSelectStep({
       truncatedLeft = `${left.slice(0, availableForLeft - 3)}...`;
     }
 
-    const gap = maxLineWidth - truncatedLeft.length - badge.length;
+    const gap =
+      maxLineWidth - truncatedLeft.length - sourceBadge.length - badge.length;
     const padding = " ".repeat(Math.max(1, gap));
-    return { truncatedLeft, badge, padding };
+    return { truncatedLeft, badge, sourceBadge, padding };
   }
 
   const countText = `${items.length}/${totalItems} templates`;
@@ -158,11 +166,12 @@ export function MultiSelectStep({
             const isSelected = selectedIds.has(item.id);
             const prefix = isCursor ? ">" : " ";
             const checkbox = isSelected ? "[x]" : "[ ]";
-            const { truncatedLeft, badge, padding } = layoutItem(
+            const { truncatedLeft, badge, sourceBadge, padding } = layoutItem(
               prefix,
               checkbox,
               item.name,
-              item.kind
+              item.kind,
+              item.source
             );
 
             let nameFg: string | undefined;
@@ -179,6 +188,9 @@ export function MultiSelectStep({
               >
                 <span fg={nameFg}>{truncatedLeft}</span>
                 <span fg={C.dim}>{padding}</span>
+                <span attributes={TextAttributes.DIM} fg={C.source}>
+                  {sourceBadge}
+                </span>
                 <span attributes={TextAttributes.DIM} fg={C.badge[item.kind]}>
                   {badge}
                 </span>
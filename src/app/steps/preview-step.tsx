@@ -10,14 +10,25 @@ const C = {
 
 interface PreviewStepProps {
   failureNames: string[];
+  // Null while the project is still being walked.
+  impactLines: string[] | null;
   outputPath: string;
   previewContent: string;
   previewError: string | null;
   previewStatus: "idle" | "loading" | "ready" | "error";
+  ruleConflicts: string[];
   selectedCount: number;
+  showImpact: boolean;
   stdout: boolean;
 }
 
+function impactLineColor(line: string): string | undefined {
+  if (!line.startsWith(" ")) {
+    return C.yellow;
+  }
+  return line.startsWith("    ") ? undefined : C.accent;
+}
+
 export function PreviewStep({
   previewStatus,
   previewContent,
@@ -26,6 +37,9 @@ export function PreviewStep({
   stdout,
   failureNames,
   previewError,
+  ruleConflicts,
+  impactLines,
+  showImpact,
 }: PreviewStepProps) {
   return (
     <box
@@ -71,40 +85,72 @@ export function PreviewStep({
         >
           <text
             content={
-              "Enter to generate | Backspace to go back | \u2191/\u2193 scroll"
+              "Enter to generate | Backspace to go back | i impact | \u2191/\u2193 scroll"
             }
             fg={C.dim}
             flexShrink={0}
           />
-          <scrollbox flexGrow={1} focused marginTop={1}>
-            {previewContent
-              .split("\n")
-              .reduce<
-                Array<{ key: string; line: string; fg: string | undefined }>
-              >((rows, line) => {
-                const count = rows.length + 1;
-                const trimmed = line.trim();
-                const isSectionHeader = trimmed.startsWith("###");
-                const isComment = trimmed.startsWith("#");
-                const content = line.length === 0 ? " " : line;
-                let fg: string | undefined;
-                if (isSectionHeader) {
-                  fg = C.accent;
-                } else if (isComment) {
-                  fg = C.dim;
-                }
+          {ruleConflicts.map((conflict) => (
+            <text
+              content={`\u26a0 ${conflict}`}
+              fg={C.yellow}
+              flexShrink={0}
+              key={conflict}
+            />
+          ))}
+          {showImpact ? (
+            <box
+              border
+              borderColor={C.dimBorder}
+              flexDirection="column"
+              flexGrow={1}
+              marginTop={1}
+              overflow="hidden"
+              title="Impact"
+            >
+              <scrollbox flexGrow={1} focused>
+                {(
+                  impactLines ?? ["Walking the project to find what changes..."]
+                ).map((line, index) => (
+                  <text
+                    content={line}
+                    fg={impactLineColor(line)}
+                    key={`${line}-${index + 1}`}
+                  />
+                ))}
+              </scrollbox>
+            </box>
+          ) : (
+            <scrollbox flexGrow={1} focused marginTop={1}>
+              {previewContent
+                .split("\n")
+                .reduce<
+                  Array<{ key: string; line: string; fg: string | undefined }>
+                >((rows, line) => {
+                  const count = rows.length + 1;
+                  const trimmed = line.trim();
+                  const isSectionHeader = trimmed.startsWith("###");
+                  const isComment = trimmed.startsWith("#");
+                  const content = line.length === 0 ? " " : line;
+                  let fg: string | undefined;
+                  if (isSectionHeader) {
+                    fg = C.accent;
+                  } else if (isComment) {
+                    fg = C.dim;
+                  }
 
-                rows.push({
-                  key: `${content}-${count}`,
-                  line: content,
-                  fg,
-                });
-                return rows;
-              }, [])
-              .map(({ key, line: rowLine, fg }) => (
-                <text content={rowLine} fg={fg} key={key} />
-              ))}
-          </scrollbox>
+                  rows.push({
+                    key: `${content}-${count}`,
+                    line: content,
+                    fg,
+                  });
+                  return rows;
+                }, [])
+                .map(({ key, line: rowLine, fg }) => (
+                  <text content={rowLine} fg={fg} key={key} />
+                ))}
+            </scrollbox>
+          )}
         </box>
       ) : null}
     </box>
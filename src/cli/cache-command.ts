@@ -0,0 +1,83 @@
+import {
+  type CacheInfo,
+  clearCache,
+  exportCache,
+  getCacheInfo,
+  importCache,
+  pruneCache,
+} from "../data/cache-maintenance";
+import { readGeneratedMetadata } from "../domain/merge-gitignore";
+import type { CacheCommand } from "../domain/types";
+import { readExistingOutput } from "./direct-generation";
+
+const BYTE_UNITS = ["B", "KB", "MB", "GB"];
+
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unitIndex += 1;
+  }
+  const rounded = unitIndex === 0 ? String(value) : value.toFixed(1);
+  return `${rounded} ${BYTE_UNITS[unitIndex]}`;
+}
+
+export function renderCacheInfo(info: CacheInfo): string {
+  const lines = [
+    `📦 IgnoreHub cache: ${info.directory}`,
+    `Size: ${formatBytes(info.sizeBytes)}`,
+    `Template bodies: ${info.bodyCount}`,
+  ];
+
+  if (info.indexes.length === 0) {
+    lines.push("Indexes: none");
+    return lines.join("\n");
+  }
+
+  lines.push("Indexes:");
+  for (const index of info.indexes) {
+    const origin = index.origin ? ` from ${index.origin}` : "";
+    lines.push(
+      `  ${index.sourceRef}${origin}: ${index.templateCount} templates, fetched ${index.fetchedAt}`,
+      `    ${index.path}`
+    );
+  }
+  return lines.join("\n");
+}
+
+// The block copy the output was generated from, so prune keeps its three-way merge working.
+async function readOutputBase(output: string): Promise<string[]> {
+  const base = readGeneratedMetadata(
+    (await readExistingOutput(output)) ?? ""
+  )?.base;
+  return base ? [base] : [];
+}
+
+export async function runCacheCommand(
+  command: CacheCommand,
+  cacheDir: string,
+  output: string
+): Promise<string> {
+  switch (command.action) {
+    case "info":
+      return renderCacheInfo(await getCacheInfo(cacheDir));
+    case "clear":
+      await clearCache(cacheDir);
+      return `✅ IgnoreHub: cleared ${cacheDir}`;
+    case "prune": {
+      const result = await pruneCache(cacheDir, await readOutputBase(output));
+      return `✅ IgnoreHub: removed ${result.removedBodies} unreferenced template bodies and ${result.removedBlocks} old block copies (${formatBytes(result.freedBytes)})`;
+    }
+    case "export": {
+      const count = await exportCache(cacheDir, command.file);
+      return `✅ IgnoreHub: exported ${count} cache files to ${command.file}`;
+    }
+    case "import": {
+      const count = await importCache(cacheDir, command.file);
+      return `✅ IgnoreHub: imported ${count} cache files into ${cacheDir}`;
+    }
+    default:
+      return command satisfies never;
+  }
+}
@@ -0,0 +1,123 @@
+import { stat } from "node:fs/promises";
+import { dirname, isAbsolute, relative, resolve, sep } from "node:path";
+import { loadNestedGitignoreRules } from "../data/nested-gitignore";
+import {
+  type GitignoreMatch,
+  type GitignoreRule,
+  matchGitignorePath,
+  parseGitignoreRules,
+} from "../domain/gitignore-matcher";
+import { MANUAL_RULE_SOURCE } from "../domain/rule-order";
+import type {
+  CheckCommand,
+  CliOptions,
+  TemplateSourceResolver,
+} from "../domain/types";
+import {
+  hasSelectionModeOptions,
+  previewDirectGeneration,
+  readExistingOutput,
+} from "./direct-generation";
+
+export interface CheckedPath {
+  match: GitignoreMatch | null;
+  path: string;
+}
+
+function displayPath(path: string): string {
+  return relative(process.cwd(), path) || path;
+}
+
+// Paths that don't exist yet are treated as files unless they end with "/".
+async function isDirectoryPath(argument: string): Promise<boolean> {
+  try {
+    return (await stat(resolve(process.cwd(), argument))).isDirectory();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return argument.endsWith("/");
+    }
+    throw error;
+  }
+}
+
+function toProjectPath(root: string, argument: string): string {
+  const projectPath = relative(root, resolve(process.cwd(), argument));
+  if (
+    projectPath.length === 0 ||
+    projectPath.startsWith("..") ||
+    isAbsolute(projectPath)
+  ) {
+    throw new Error(`${argument} is not inside ${root}`);
+  }
+  return projectPath.split(sep).join("/");
+}
+
+async function loadRootRules(
+  options: CliOptions,
+  templateSources: TemplateSourceResolver
+): Promise<GitignoreRule[]> {
+  const file = displayPath(options.output);
+  if (hasSelectionModeOptions(options)) {
+    const preview = await previewDirectGeneration(options, templateSources);
+    return parseGitignoreRules(preview, { file: `${file} (preview)` });
+  }
+
+  const content = await readExistingOutput(options.output);
+  if (content === null) {
+    throw new Error(
+      `No .gitignore at ${options.output}. Generate one first, or check against a preview with --template or --auto.`
+    );
+  }
+  return parseGitignoreRules(content, { file });
+}
+
+// With --template, --auto, --add or --remove the paths are checked against the output that
+// generation would write instead of the current file.
+export async function checkPaths(
+  options: CliOptions,
+  paths: string[],
+  templateSources: TemplateSourceResolver
+): Promise<CheckedPath[]> {
+  const root = dirname(options.output);
+  const rootRules = await loadRootRules(options, templateSources);
+  const nestedRules = new Map<string, GitignoreRule[]>();
+
+  const results: CheckedPath[] = [];
+  for (const argument of paths) {
+    const path = toProjectPath(root, argument);
+    const rules = [
+      ...rootRules,
+      ...(await loadNestedGitignoreRules(root, path, nestedRules)),
+    ];
+    results.push({
+      match: matchGitignorePath(rules, path, await isDirectoryPath(argument)),
+      path,
+    });
+  }
+  return results;
+}
+
+export function renderCheckResult({ match, path }: CheckedPath): string {
+  if (!match) {
+    return `✅ ${path}: not ignored`;
+  }
+
+  const { rule } = match;
+  const origin = `${rule.file}:${rule.lineNumber}, ${rule.section ?? MANUAL_RULE_SOURCE}`;
+  if (!match.ignored) {
+    return `✅ ${path}: re-included by "${rule.rule}" (${origin})`;
+  }
+  const parent = match.parent ? `in ${match.parent}/, ` : "";
+  return `🚫 ${path}: ${parent}ignored by "${rule.rule}" (${origin})`;
+}
+
+// Like git check-ignore, returns false when none of the paths is ignored.
+export async function runCheckCommand(
+  options: CliOptions,
+  command: CheckCommand,
+  templateSources: TemplateSourceResolver
+): Promise<boolean> {
+  const results = await checkPaths(options, command.paths, templateSources);
+  process.stdout.write(`${results.map(renderCheckResult).join("\n")}\n`);
+  return results.some((result) => result.match?.ignored);
+}
@@ -0,0 +1,241 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { formatError } from "../data/fetch-pipeline";
+import { parseMaxAge } from "../domain/duration";
+import type {
+  CliOptions,
+  GitHubTemplateRegistry,
+  TemplateRegistry,
+} from "../domain/types";
+
+export const PROJECT_CONFIG_FILE_NAME = ".ignore-hub.json";
+
+const REGISTRY_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export interface IgnoreHubConfig {
+  apiUrl?: string;
+  maxAge?: string;
+  rawUrl?: string;
+  repo?: string;
+  sourceDir?: string;
+  sources?: TemplateRegistry[];
+}
+
+type ConfigScope = "user" | "project";
+
+const GITHUB_ENDPOINT_KEYS = ["apiUrl", "rawUrl", "repo"] as const;
+// Requests to these hosts may carry a token, so a checked-out repository must not pick them.
+const CREDENTIAL_ENDPOINT_KEYS = new Set(["apiUrl", "rawUrl"]);
+
+function assertScopeAllows(
+  key: string,
+  scope: ConfigScope,
+  label: string
+): void {
+  if (scope === "project" && CREDENTIAL_ENDPOINT_KEYS.has(key)) {
+    throw new Error(
+      `${label}${key} cannot be set in ${PROJECT_CONFIG_FILE_NAME}; use the user config, the flag or the IGNORE_HUB_* variable`
+    );
+  }
+}
+
+function resolveUserConfigPath(): string {
+  const configHome =
+    process.env.XDG_CONFIG_HOME && process.env.XDG_CONFIG_HOME.length > 0
+      ? process.env.XDG_CONFIG_HOME
+      : join(homedir(), ".config");
+  return join(configHome, "ignore-hub", "config.json");
+}
+
+function parseRegistry(
+  value: unknown,
+  index: number,
+  path: string,
+  scope: ConfigScope
+): TemplateRegistry {
+  const label = `Invalid config file ${path}: sources[${index}]`;
+  if (typeof value !== "object" || value === null) {
+    throw new Error(`${label} must be an object`);
+  }
+
+  const candidate = value as Record<string, unknown>;
+  if (
+    typeof candidate.name !== "string" ||
+    !REGISTRY_NAME_PATTERN.test(candidate.name)
+  ) {
+    throw new Error(
+      `${label}.name must be letters, digits, "-" or "_" (used as the id prefix)`
+    );
+  }
+  if (
+    candidate.priority !== undefined &&
+    typeof candidate.priority !== "number"
+  ) {
+    throw new Error(`${label}.priority must be a number`);
+  }
+  const priority = candidate.priority ?? 0;
+
+  if (candidate.kind === "github") {
+    const registry: GitHubTemplateRegistry = {
+      kind: "github",
+      name: candidate.name,
+      priority,
+    };
+    for (const key of ["ref", ...GITHUB_ENDPOINT_KEYS] as const) {
+      const setting = candidate[key];
+      if (setting === undefined) {
+        continue;
+      }
+      if (typeof setting !== "string") {
+        throw new Error(`${label}.${key} must be a string`);
+      }
+      assertScopeAllows(key, scope, `${label}.`);
+      registry[key] = setting;
+    }
+    return registry;
+  }
+
+  if (candidate.kind === "directory") {
+    if (typeof candidate.path !== "string") {
+      throw new Error(`${label}.path must be a string`);
+    }
+    return {
+      kind: "directory",
+      name: candidate.name,
+      path: resolve(dirname(path), candidate.path),
+      priority,
+    };
+  }
+
+  throw new Error(`${label}.kind must be "github" or "directory"`);
+}
+
+function parseRegistries(
+  value: unknown,
+  path: string,
+  scope: ConfigScope
+): TemplateRegistry[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid config file ${path}: "sources" must be an array`);
+  }
+
+  const registries = value.map((entry, index) =>
+    parseRegistry(entry, index, path, scope)
+  );
+  const names = new Set<string>();
+  for (const registry of registries) {
+    if (names.has(registry.name)) {
+      throw new Error(
+        `Invalid config file ${path}: duplicate source name "${registry.name}"`
+      );
+    }
+    names.add(registry.name);
+  }
+  return registries;
+}
+
+function readStringSetting(
+  candidate: Record<string, unknown>,
+  key: string,
+  path: string
+): string | undefined {
+  const setting = candidate[key];
+  if (setting !== undefined && typeof setting !== "string") {
+    throw new Error(`Invalid config file ${path}: "${key}" must be a string`);
+  }
+  return setting;
+}
+
+function parseConfig(
+  raw: string,
+  path: string,
+  scope: ConfigScope
+): IgnoreHubConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    const reason = formatError(error);
+    throw new Error(`Invalid config file ${path}: ${reason}`);
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Invalid config file ${path}: expected a JSON object`);
+  }
+
+  const candidate = parsed as Record<string, unknown>;
+  const config: IgnoreHubConfig = {};
+
+  const sourceDir = readStringSetting(candidate, "sourceDir", path);
+  if (sourceDir !== undefined) {
+    // Relative paths are anchored to the config file, not the working directory.
+    config.sourceDir = resolve(dirname(path), sourceDir);
+  }
+
+  for (const key of GITHUB_ENDPOINT_KEYS) {
+    const setting = readStringSetting(candidate, key, path);
+    if (setting !== undefined) {
+      assertScopeAllows(key, scope, `Invalid config file ${path}: `);
+      config[key] = setting;
+    }
+  }
+
+  const maxAge = readStringSetting(candidate, "maxAge", path);
+  if (maxAge !== undefined) {
+    try {
+      parseMaxAge(maxAge);
+    } catch (error) {
+      const reason = formatError(error);
+      throw new Error(`Invalid config file ${path}: ${reason}`);
+    }
+    config.maxAge = maxAge;
+  }
+
+  if (candidate.sources !== undefined) {
+    config.sources = parseRegistries(candidate.sources, path, scope);
+  }
+
+  return config;
+}
+
+async function readConfigFile(
+  path: string,
+  scope: ConfigScope
+): Promise<IgnoreHubConfig> {
+  try {
+    return parseConfig(await readFile(path, "utf8"), path, scope);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw error;
+  }
+}
+
+export async function loadConfig(cwd: string): Promise<IgnoreHubConfig> {
+  const userConfig = await readConfigFile(resolveUserConfigPath(), "user");
+  const projectConfig = await readConfigFile(
+    join(cwd, PROJECT_CONFIG_FILE_NAME),
+    "project"
+  );
+  return { ...userConfig, ...projectConfig };
+}
+
+export function applyConfig(
+  options: CliOptions,
+  config: IgnoreHubConfig
+): CliOptions {
+  return {
+    ...options,
+    apiUrl: options.apiUrl ?? config.apiUrl ?? null,
+    cacheMaxAge: options.cacheMaxAge ?? config.maxAge ?? null,
+    rawUrl: options.rawUrl ?? config.rawUrl ?? null,
+    repo: options.repo ?? config.repo ?? null,
+    sourceDir: options.sourceDir ?? config.sourceDir ?? null,
+    registries:
+      options.registries.length > 0
+        ? options.registries
+        : (config.sources ?? []),
+  };
+}
@@ -0,0 +1,661 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  buildBlockMetadata,
+  describeRegistryHost,
+  loadPreviousBlockBody,
+} from "../data/block-metadata";
+import {
+  loadTemplateIndex,
+  loadTemplateSource,
+  resolveCacheDir,
+  writeCachedBlockBody,
+} from "../data/cache-store";
+import {
+  fetchTemplatesWithSource,
+  formatError,
+  renderTemplateFetchReport,
+} from "../data/fetch-pipeline";
+import {
+  buildTemplateLockfile,
+  describeLockedTemplateDrift,
+  readTemplateLockfile,
+  resolveLockedRegistries,
+  resolveLockfilePath,
+  writeTemplateLockfile,
+} from "../data/lockfile";
+import {
+  buildSourcePriority,
+  resolveTemplateRegistries,
+} from "../data/registries";
+import {
+  getUnqualifiedTemplateId,
+  normalizeTemplateName,
+} from "../domain/classification";
+import { computeContentHash } from "../domain/content-hash";
+import {
+  DEFAULT_CACHE_MAX_AGE,
+  formatDuration,
+  resolveCacheMaxAgeMs,
+} from "../domain/duration";
+import { isDedupeMode } from "../domain/gitignore-pattern";
+import {
+  type GeneratedBlockMetadata,
+  type GeneratedSection,
+  type MergeGitignoreResult,
+  mergeGitignoreWithEdits,
+  parseGeneratedSections,
+  readGeneratedMetadata,
+} from "../domain/merge-gitignore";
+import { describeRuleConflict } from "../domain/rule-order";
+import type {
+  CliOptions,
+  DedupeMode,
+  IndexLoadResult,
+  TemplateMeta,
+  TemplateRegistry,
+  TemplateSourceResolver,
+  TemplateWithSource,
+} from "../domain/types";
+import { collectGitignoreImpact, renderImpactReport } from "./impact-report";
+import { detectProjectTemplates } from "./project-detector";
+import {
+  renderTemplateResolutionMessage,
+  resolveTemplateQueries,
+} from "./template-resolution";
+
+// With --stdout the report goes to stderr so the output can be piped.
+export function selectReportStream(
+  options: Pick<CliOptions, "stdout">
+): NodeJS.WriteStream {
+  return options.stdout ? process.stderr : process.stdout;
+}
+
+export async function readExistingOutput(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function downloadTemplates(
+  templates: TemplateMeta[],
+  options: CliOptions,
+  registries: TemplateRegistry[],
+  templateSources: TemplateSourceResolver
+): Promise<TemplateWithSource[]> {
+  const report = await fetchTemplatesWithSource(
+    templates,
+    (template, signal) =>
+      loadTemplateSource(template, {
+        cacheDir: resolveCacheDir(options.cacheDir),
+        offline: options.offline,
+        registries,
+        signal,
+        templateSources,
+      }),
+    options
+  );
+
+  if (report.failures.length > 0 && options.offline) {
+    throw new Error(
+      `Template source not cached for: ${report.failures.map((failure) => failure.template.name).join(", ")}. Run once without --offline to download it.`
+    );
+  }
+
+  if (report.failures.length > 0) {
+    throw new Error(renderTemplateFetchReport(report));
+  }
+
+  return report.fetched;
+}
+
+function isIncrementalUpdate(options: CliOptions): boolean {
+  return options.addTemplates.length > 0 || options.removeTemplates.length > 0;
+}
+
+export function hasSelectionModeOptions(options: CliOptions): boolean {
+  return (
+    options.templates.length > 0 || options.auto || isIncrementalUpdate(options)
+  );
+}
+
+function sectionMatchesQuery(
+  section: GeneratedSection,
+  query: string
+): boolean {
+  const normalizedQuery = normalizeTemplateName(query);
+  const names = [section.name, ...(section.id ? [section.id] : [])];
+  if (section.id?.includes(":")) {
+    names.push(section.id.slice(section.id.indexOf(":") + 1));
+  }
+  return names.some((name) => normalizeTemplateName(name) === normalizedQuery);
+}
+
+function resolveOrThrow(
+  templates: TemplateMeta[],
+  queries: string[],
+  sourcePriority: Record<string, number>
+): TemplateMeta[] {
+  const resolution = resolveTemplateQueries(templates, queries, sourcePriority);
+  if (resolution.issues.length > 0) {
+    throw new Error(renderTemplateResolutionMessage(resolution.issues));
+  }
+  return resolution.selected;
+}
+
+export function resolveSectionTemplates(
+  sections: GeneratedSection[],
+  templates: TemplateMeta[],
+  sourcePriority: Record<string, number>,
+  output: string
+): TemplateMeta[] {
+  const resolved: TemplateMeta[] = [];
+  for (const section of sections) {
+    const exact = templates.find((template) => template.id === section.id);
+    if (exact) {
+      resolved.push(exact);
+      continue;
+    }
+    const resolution = resolveTemplateQueries(
+      templates,
+      [section.id ?? section.name],
+      sourcePriority
+    );
+    const [match] = resolution.selected;
+    if (!match || resolution.issues.length > 0) {
+      throw new Error(
+        `Template "${section.id ?? section.name}" in ${output} is no longer available. Drop it with --remove.`
+      );
+    }
+    resolved.push(match);
+  }
+  return resolved;
+}
+
+// The sections of the block, checked against the template list recorded in its metadata so a
+// header lost in a hand edit or a merge does not silently drop a template.
+export function readBlockSections(
+  existingContent: string | null,
+  output: string
+): GeneratedSection[] {
+  const sections = parseGeneratedSections(existingContent ?? "");
+  const recorded =
+    readGeneratedMetadata(existingContent ?? "")?.templates ?? [];
+  if (recorded.length === 0) {
+    return sections;
+  }
+
+  const found = sections.map((section) => section.id ?? section.name);
+  const missing = recorded.filter((id) => !found.includes(id));
+  const unexpected = found.filter((id) => !recorded.includes(id));
+  if (missing.length > 0 || unexpected.length > 0) {
+    throw new Error(
+      `The generated block of ${output} records the templates ${recorded.join(", ")}, but its section headers are for ${found.join(", ") || "none"}. Restore the headers, or regenerate the block with --template.`
+    );
+  }
+  return sections;
+}
+
+// Sections already in the block are kept and re-fetched so dedupe runs over the full set again.
+function selectIncrementalTemplates(
+  options: CliOptions,
+  registries: TemplateRegistry[],
+  templates: TemplateMeta[],
+  existingContent: string | null
+): TemplateMeta[] {
+  const sections = readBlockSections(existingContent, options.output);
+  const notPresent = options.removeTemplates.filter(
+    (query) => !sections.some((section) => sectionMatchesQuery(section, query))
+  );
+  if (notPresent.length > 0) {
+    throw new Error(
+      `Not in the generated block of ${options.output}: ${notPresent.join(", ")}`
+    );
+  }
+
+  const sourcePriority = buildSourcePriority(registries);
+  const kept = sections.filter(
+    (section) =>
+      !options.removeTemplates.some((query) =>
+        sectionMatchesQuery(section, query)
+      )
+  );
+  const keptTemplates = resolveSectionTemplates(
+    kept,
+    templates,
+    sourcePriority,
+    options.output
+  );
+
+  const keptIds = new Set(keptTemplates.map((template) => template.id));
+  const added = resolveOrThrow(
+    templates,
+    options.addTemplates,
+    sourcePriority
+  ).filter((template) => !keptIds.has(template.id));
+  return [...keptTemplates, ...added];
+}
+
+async function selectTemplates(
+  options: CliOptions,
+  registries: TemplateRegistry[],
+  indexResult: IndexLoadResult
+): Promise<TemplateMeta[]> {
+  const availableTemplateIds = new Set(
+    indexResult.index.templates.map((template) =>
+      normalizeTemplateName(getUnqualifiedTemplateId(template))
+    )
+  );
+  const autoTemplateCandidates = options.auto
+    ? await detectProjectTemplates(process.cwd())
+    : [];
+  const supportedAutoTemplates = options.auto
+    ? autoTemplateCandidates.filter((id) =>
+        availableTemplateIds.has(normalizeTemplateName(id))
+      )
+    : [];
+  const requestedTemplateNames = [
+    ...options.templates,
+    ...supportedAutoTemplates,
+  ];
+
+  if (requestedTemplateNames.length === 0) {
+    throw new Error("No templates resolved. Use --template <names> or --auto.");
+  }
+
+  return resolveOrThrow(
+    indexResult.index.templates,
+    requestedTemplateNames,
+    buildSourcePriority(registries)
+  );
+}
+
+async function buildDirectOutput(
+  options: CliOptions,
+  registries: TemplateRegistry[],
+  indexResult: IndexLoadResult,
+  templateSources: TemplateSourceResolver
+): Promise<{
+  existingContent: string | null;
+  merged: MergeGitignoreResult;
+  templatesWithSource: TemplateWithSource[];
+}> {
+  const existingContent = await readExistingOutput(options.output);
+  const selected = isIncrementalUpdate(options)
+    ? selectIncrementalTemplates(
+        options,
+        registries,
+        indexResult.index.templates,
+        existingContent
+      )
+    : await selectTemplates(options, registries, indexResult);
+
+  const templatesWithSource = await downloadTemplates(
+    selected,
+    options,
+    registries,
+    templateSources
+  );
+  const merged = mergeGitignoreWithEdits({
+    dedupe: options.dedupe,
+    existingContent,
+    templates: templatesWithSource,
+    includeWatermark: options.includeWatermark,
+    metadata: await buildBlockMetadata(options, registries),
+    previousBody: await loadPreviousBlockBody(
+      existingContent,
+      resolveCacheDir(options.cacheDir)
+    ),
+    useSimpleSectionSeparator: options.useSimpleSectionSeparator,
+  });
+  reportMergeWarnings(options, merged);
+  return { existingContent, merged, templatesWithSource };
+}
+
+async function reportDryRun(
+  options: CliOptions,
+  existingContent: string | null,
+  content: string
+): Promise<void> {
+  const log = selectReportStream(options);
+  const state =
+    content === existingContent ? "is up to date" : "would be rewritten";
+  log.write(`🧪 IgnoreHub: dry run, ${options.output} ${state}\n`);
+  if (options.impact) {
+    const report = await collectGitignoreImpact(
+      dirname(options.output),
+      existingContent,
+      content
+    );
+    log.write(`${renderImpactReport(report).join("\n")}\n`);
+  }
+}
+
+async function generateFromIndex(
+  options: CliOptions,
+  registries: TemplateRegistry[],
+  indexResult: IndexLoadResult,
+  templateSources: TemplateSourceResolver
+): Promise<void> {
+  const { existingContent, merged, templatesWithSource } =
+    await buildDirectOutput(options, registries, indexResult, templateSources);
+  if (options.dryRun) {
+    await reportDryRun(options, existingContent, merged.content);
+  }
+
+  if (options.stdout) {
+    process.stdout.write(
+      merged.content.endsWith("\n") ? merged.content : `${merged.content}\n`
+    );
+    return;
+  }
+  if (options.dryRun) {
+    return;
+  }
+
+  await writeGeneratedOutput(options, merged, indexResult, templatesWithSource);
+  process.stdout.write(
+    `✅ IgnoreHub: generated .gitignore at ${options.output}\n`
+  );
+}
+
+// Conflict markers fail the run even when they are written, so scripts and CI notice them.
+export function reportMergeWarnings(
+  options: Pick<CliOptions, "dryRun" | "output">,
+  merged: MergeGitignoreResult
+): void {
+  for (const conflict of merged.ruleConflicts) {
+    process.stderr.write(`⚠️  IgnoreHub: ${describeRuleConflict(conflict)}\n`);
+  }
+  if (merged.conflicts > 0) {
+    const hint = options.dryRun
+      ? ""
+      : " Resolve the <<<<<<< markers and run again.";
+    process.stderr.write(
+      `⚠️  IgnoreHub: ${merged.conflicts} hand edit(s) inside the generated block of ${options.output} conflict with upstream.${hint}\n`
+    );
+    process.exitCode = 1;
+  }
+}
+
+export async function writeGeneratedOutput(
+  options: CliOptions,
+  merged: MergeGitignoreResult,
+  indexResult: IndexLoadResult,
+  templatesWithSource: TemplateWithSource[]
+): Promise<void> {
+  await writeFile(options.output, merged.content, "utf8");
+  await writeCachedBlockBody(
+    merged.generatedBody,
+    resolveCacheDir(options.cacheDir)
+  );
+  await writeTemplateLockfile(
+    resolveLockfilePath(options.output),
+    buildTemplateLockfile({
+      dedupe: options.dedupe,
+      output: merged.content,
+      sourceRef: indexResult.index.sourceRef,
+      templates: templatesWithSource,
+      includeWatermark: options.includeWatermark,
+      useSimpleSectionSeparator: options.useSimpleSectionSeparator,
+    })
+  );
+}
+
+// Warns on stderr and refreshes a stale index so the next run sees new upstream templates.
+function startStaleIndexRefresh(
+  indexResult: IndexLoadResult,
+  options: CliOptions,
+  registries: TemplateRegistry[],
+  maxAgeMs: number | null,
+  templateSources: TemplateSourceResolver
+): Promise<void> {
+  if (indexResult.staleAgeMs === undefined) {
+    return Promise.resolve();
+  }
+
+  const age = `template index is ${formatDuration(indexResult.staleAgeMs)} old (max age ${options.cacheMaxAge ?? DEFAULT_CACHE_MAX_AGE})`;
+  if (options.offline) {
+    process.stderr.write(
+      `⚠️  IgnoreHub: ${age}; run without --offline to refresh it.\n`
+    );
+    return Promise.resolve();
+  }
+
+  process.stderr.write(
+    `⚠️  IgnoreHub: ${age}; refreshing it in the background for the next run.\n`
+  );
+  return loadTemplateIndex({
+    cacheDir: resolveCacheDir(options.cacheDir),
+    maxAgeMs,
+    offline: false,
+    refresh: true,
+    registries,
+    retry: { retries: options.retries, timeoutMs: options.timeoutMs },
+    templateSources,
+  }).then(
+    () => undefined,
+    () => undefined
+  );
+}
+
+export async function withTemplateIndex(
+  options: CliOptions,
+  templateSources: TemplateSourceResolver,
+  task: (
+    registries: TemplateRegistry[],
+    indexResult: IndexLoadResult
+  ) => Promise<void>
+): Promise<void> {
+  const registries = resolveTemplateRegistries(options);
+  const maxAgeMs = resolveCacheMaxAgeMs(options.cacheMaxAge);
+  const indexResult = await loadTemplateIndex({
+    cacheDir: resolveCacheDir(options.cacheDir),
+    maxAgeMs,
+    refresh: options.refresh,
+    offline: options.offline,
+    registries,
+    retry: { retries: options.retries, timeoutMs: options.timeoutMs },
+    templateSources,
+  });
+  if (indexResult.warning) {
+    process.stderr.write(`⚠️  IgnoreHub: ${indexResult.warning}\n`);
+  }
+  const backgroundRefresh = startStaleIndexRefresh(
+    indexResult,
+    options,
+    registries,
+    maxAgeMs,
+    templateSources
+  );
+
+  try {
+    await task(registries, indexResult);
+  } finally {
+    await backgroundRefresh;
+  }
+}
+
+function pickRecordedDedupe(
+  options: CliOptions,
+  metadata: GeneratedBlockMetadata
+): DedupeMode {
+  const recorded = metadata.options.dedupe;
+  return options.explicitOptions.includes("dedupe") || !isDedupeMode(recorded)
+    ? options.dedupe
+    : recorded;
+}
+
+// A host named in a checked-out file is never followed, since requests to it may carry a
+// token; the user has to configure it.
+function assertRecordedHost(
+  options: CliOptions,
+  metadata: GeneratedBlockMetadata
+): void {
+  if (!metadata.host || options.apiUrl !== null) {
+    return;
+  }
+  const host = describeRegistryHost(resolveTemplateRegistries(options));
+  if (host !== metadata.host) {
+    throw new Error(
+      `The generated block was made from ${metadata.host}, but ignore-hub is set up for ${host ?? "github.com"}. Pass --api-url (or set apiUrl in your user config) to choose the host.`
+    );
+  }
+}
+
+// Without --ref, --repo or --dedupe, regeneration stays on the ref, repo and dedupe mode
+// recorded in the block.
+export function applyGeneratedMetadata(
+  options: CliOptions,
+  metadata: GeneratedBlockMetadata | null
+): CliOptions {
+  if (!metadata) {
+    return options;
+  }
+  assertRecordedHost(options, metadata);
+  return {
+    ...options,
+    dedupe: pickRecordedDedupe(options, metadata),
+    ref:
+      options.explicitOptions.includes("ref") || !metadata.ref
+        ? options.ref
+        : metadata.ref,
+    repo: options.repo ?? metadata.repo,
+  };
+}
+
+async function resolveDirectOptions(options: CliOptions): Promise<CliOptions> {
+  return isIncrementalUpdate(options)
+    ? applyGeneratedMetadata(
+        options,
+        readGeneratedMetadata((await readExistingOutput(options.output)) ?? "")
+      )
+    : options;
+}
+
+// What runDirectGeneration would write, without touching the output, cache or lockfile.
+export async function previewDirectGeneration(
+  options: CliOptions,
+  templateSources: TemplateSourceResolver
+): Promise<string> {
+  const effectiveOptions = await resolveDirectOptions(options);
+  let content = "";
+  await withTemplateIndex(
+    effectiveOptions,
+    templateSources,
+    async (registries, indexResult) => {
+      const { merged } = await buildDirectOutput(
+        effectiveOptions,
+        registries,
+        indexResult,
+        templateSources
+      );
+      content = merged.content;
+    }
+  );
+  return content;
+}
+
+export async function runDirectGeneration(
+  options: CliOptions,
+  templateSources: TemplateSourceResolver
+): Promise<void> {
+  const effectiveOptions = await resolveDirectOptions(options);
+  await withTemplateIndex(
+    effectiveOptions,
+    templateSources,
+    (registries, indexResult) =>
+      generateFromIndex(
+        effectiveOptions,
+        registries,
+        indexResult,
+        templateSources
+      )
+  );
+}
+
+export async function runFrozenGeneration(
+  options: CliOptions,
+  templateSources: TemplateSourceResolver
+): Promise<void> {
+  const lockfilePath = resolveLockfilePath(options.output);
+  const lockfile = await readTemplateLockfile(lockfilePath);
+  if (!lockfile) {
+    throw new Error(`--frozen requires a lockfile at ${lockfilePath}`);
+  }
+
+  const registries = resolveLockedRegistries(options, lockfile);
+  const templatesWithSource: TemplateWithSource[] = [];
+  const drift: string[] = [];
+
+  for (const template of lockfile.templates) {
+    let source: string;
+    try {
+      source = await loadTemplateSource(template, {
+        cacheDir: resolveCacheDir(options.cacheDir),
+        offline: options.offline,
+        registries,
+        templateSources,
+      });
+    } catch (error) {
+      drift.push(`${template.id}: ${formatError(error)}`);
+      continue;
+    }
+
+    const templateDrift = describeLockedTemplateDrift(template, source);
+    if (templateDrift) {
+      drift.push(templateDrift);
+      continue;
+    }
+    templatesWithSource.push({ meta: template, source });
+  }
+
+  if (drift.length > 0) {
+    throw new Error(
+      `Lockfile ${lockfilePath} is out of date:\n${drift.join("\n")}`
+    );
+  }
+
+  // Keeping the recorded metadata means a newer ignore-hub still reproduces the locked bytes.
+  const existingContent = await readExistingOutput(options.output);
+  const dedupe = lockfile.options.dedupe ?? "exact";
+  const merged = mergeGitignoreWithEdits({
+    dedupe,
+    existingContent,
+    templates: templatesWithSource,
+    includeWatermark: lockfile.options.includeWatermark,
+    metadata:
+      readGeneratedMetadata(existingContent ?? "") ??
+      (await buildBlockMetadata({ dedupe }, registries)),
+    previousBody: await loadPreviousBlockBody(
+      existingContent,
+      resolveCacheDir(options.cacheDir)
+    ),
+    useSimpleSectionSeparator: lockfile.options.useSimpleSectionSeparator,
+  });
+
+  if (computeContentHash(merged.content) !== lockfile.outputHash) {
+    throw new Error(
+      `Regenerated output does not match ${lockfilePath}. ${options.output} was edited since it was locked.`
+    );
+  }
+
+  if (options.stdout) {
+    process.stdout.write(merged.content);
+    return;
+  }
+
+  await writeFile(options.output, merged.content, "utf8");
+  await writeCachedBlockBody(
+    merged.generatedBody,
+    resolveCacheDir(options.cacheDir)
+  );
+  process.stdout.write(
+    `✅ IgnoreHub: regenerated .gitignore at ${options.output} from ${lockfilePath}\n`
+  );
+}
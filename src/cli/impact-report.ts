@@ -0,0 +1,134 @@
+import { loadNestedGitignoreRules } from "../data/nested-gitignore";
+import {
+  type GitignoreMatch,
+  type GitignoreRule,
+  matchGitignorePath,
+  parseGitignoreRules,
+} from "../domain/gitignore-matcher";
+import { MANUAL_RULE_SOURCE } from "../domain/rule-order";
+import { walkProjectTree } from "./project-detector";
+
+export type ImpactChange = "newly-ignored" | "no-longer-ignored" | "unchanged";
+
+export interface ImpactEntry {
+  change: ImpactChange;
+  isDirectory: boolean;
+  path: string;
+  // Section of the rule that ignores the path after the change, or before it when it no longer does.
+  section: string;
+}
+
+export interface ImpactReport {
+  entries: ImpactEntry[];
+  // True when the walk stopped at the path limit, so the lists are incomplete.
+  truncated: boolean;
+}
+
+export const DEFAULT_IMPACT_MAX_PATHS = 20_000;
+
+const IMPACT_CHANGES: { change: ImpactChange; label: string }[] = [
+  { change: "newly-ignored", label: "🆕 Newly ignored" },
+  { change: "no-longer-ignored", label: "↩️  No longer ignored" },
+  { change: "unchanged", label: "💤 Still ignored" },
+];
+
+function classifyChange(
+  before: GitignoreMatch | null,
+  after: GitignoreRule | null
+): ImpactChange {
+  if (!before?.ignored) {
+    return "newly-ignored";
+  }
+  return after ? "unchanged" : "no-longer-ignored";
+}
+
+// Compares the project tree under `root` against both versions of the root .gitignore.
+// Directories that stay or become ignored are reported as a whole instead of being walked,
+// and .git is skipped. Directories that are no longer ignored are walked for what the new
+// rules still ignore inside them. Stops after `maxPaths` paths.
+export async function collectGitignoreImpact(
+  root: string,
+  currentContent: string | null,
+  nextContent: string,
+  maxPaths = DEFAULT_IMPACT_MAX_PATHS
+): Promise<ImpactReport> {
+  const currentRules = parseGitignoreRules(currentContent ?? "");
+  const nextRules = parseGitignoreRules(nextContent);
+  const nestedRules = new Map<string, GitignoreRule[]>();
+  const entries: ImpactEntry[] = [];
+  let visited = 0;
+
+  const completed = await walkProjectTree(
+    root,
+    async ({ isDirectory, name, path }) => {
+      if (isDirectory && name === ".git") {
+        return "skip";
+      }
+      visited += 1;
+      if (visited > maxPaths) {
+        return "stop";
+      }
+      const nested = await loadNestedGitignoreRules(root, path, nestedRules);
+      const before = matchGitignorePath(
+        [...currentRules, ...nested],
+        path,
+        isDirectory
+      );
+      const afterMatch = matchGitignorePath(
+        [...nextRules, ...nested],
+        path,
+        isDirectory
+      );
+      const after = afterMatch?.ignored ? afterMatch.rule : null;
+      const deciding = after ?? (before?.ignored ? before.rule : null);
+      if (!deciding) {
+        return "continue";
+      }
+
+      const change = classifyChange(before, after);
+      // Only ignored before because of a parent that is reported as no longer ignored.
+      if (!(change === "no-longer-ignored" && before?.parent)) {
+        entries.push({
+          change,
+          isDirectory,
+          path,
+          section: deciding.section ?? MANUAL_RULE_SOURCE,
+        });
+      }
+      return change === "no-longer-ignored" ? "continue" : "skip";
+    }
+  );
+  return {
+    entries: entries.sort((a, b) => a.path.localeCompare(b.path)),
+    truncated: !completed,
+  };
+}
+
+export function renderImpactReport({
+  entries,
+  truncated,
+}: ImpactReport): string[] {
+  const lines: string[] = [];
+  for (const { change, label } of IMPACT_CHANGES) {
+    const group = entries.filter((entry) => entry.change === change);
+    lines.push(`${label}: ${group.length}`);
+
+    const bySection = new Map<string, ImpactEntry[]>();
+    for (const entry of group) {
+      bySection.set(entry.section, [
+        ...(bySection.get(entry.section) ?? []),
+        entry,
+      ]);
+    }
+    for (const [section, sectionEntries] of bySection) {
+      lines.push(`  ${section}`);
+      for (const entry of sectionEntries) {
+        lines.push(`    ${entry.path}${entry.isDirectory ? "/" : ""}`);
+      }
+    }
+  }
+  if (truncated) {
+    lines.push("✂️  Stopped early in a large tree; the lists are incomplete.");
+  }
+  return lines;
+}
@@ -1,12 +1,28 @@
 import { resolve } from "node:path";
-import type { CliOptions } from "../domain/types";
+import { DEFAULT_FETCH_PIPELINE_OPTIONS } from "../data/fetch-pipeline";
+import { DEFAULT_TEMPLATE_REF } from "../data/github-client";
+import { parseProxyUrl } from "../data/proxy";
+import { parseMaxAge } from "../domain/duration";
+import {
+  DEFAULT_DEDUPE_MODE,
+  parseDedupeMode,
+} from "../domain/gitignore-pattern";
+import type {
+  CacheCommand,
+  CliCommand,
+  CliOptions,
+  ExplicitOption,
+} from "../domain/types";
 
 interface ParseResult {
+  command: CliCommand | null;
   options: CliOptions;
   showHelp: boolean;
   showVersion: boolean;
 }
 
+const CACHE_ACTIONS = ["info", "clear", "prune", "export", "import"] as const;
+
 function addTemplateValues(values: string, target: string[]): void {
   for (const raw of values.split(",")) {
     const trimmed = raw.trim();
@@ -26,15 +42,47 @@ export function buildUsageText(): string {
     "Usage:",
     "  ignore-hub [options]",
     "  ih [options]",
+    "  ih update [--yes] [options]",
+    "  ih check <path...> [options]",
+    "  ih cache <info|clear|prune> [options]",
+    "  ih cache <export|import> <file> [options]",
+    "",
+    "Commands:",
+    "  update                   🔃 Refresh the generated block against upstream and show what changed",
+    "  check <path...>          🔍 Show which rule, line and template section ignores each path",
+    "  cache info               📦 Show cache location, cached indexes, body count and size",
+    "  cache clear              🧹 Delete the whole cache",
+    "  cache prune              ✂️  Delete template bodies no cached index refers to",
+    "  cache export <file>      📤 Write the cache to a portable archive",
+    "  cache import <file>      📥 Seed the cache from an archive (e.g. on an air-gapped machine)",
     "",
     "Options:",
     "  --output <path>, -o      📝 Write output file path (default: ./.gitignore)",
     "  --refresh                🔄 Refresh template index from GitHub",
+    "  --ref <sha|tag|branch>   📌 Pin github/gitignore to a commit, tag or branch (default: main)",
+    "  --api-url <url>          🏢 GitHub API base URL, e.g. https://ghe.example.com/api/v3 (env: IGNORE_HUB_API_URL, token: IGNORE_HUB_TOKEN)",
+    "  --raw-url <url>          🏢 Raw file base URL (env: IGNORE_HUB_RAW_URL)",
+    "  --repo <owner/name>      🏢 Template repository (default: github/gitignore, env: IGNORE_HUB_REPO)",
+    "  --proxy <url>            🌐 HTTP(S) proxy, credentials allowed (env: HTTPS_PROXY, HTTP_PROXY; NO_PROXY is honored)",
+    "  --source-dir <path>      📁 Read templates from a local github/gitignore-style directory",
+    "  --frozen                 🔒 Regenerate exactly from ignore-hub.lock and fail on drift",
+    "  --cache-dir <path>       🗄  Cache directory (env: IGNORE_HUB_CACHE_DIR, default: $XDG_CACHE_HOME/ignore-hub or ~/.cache/ignore-hub)",
+    "  --max-age <duration>     ⌛ Refresh the cached index once it is older than this (e.g. 12h, 7d, never; default: 7d)",
+    "  --offline                ✈️  Use only cached templates, never touch the network",
+    "  --concurrency <n>        ⚡ Download up to n templates at once (default: 6)",
+    "  --timeout <ms>           ⏱  Abort a template download or index request after ms milliseconds (default: 15000)",
+    "  --retries <n>            🔁 Retry failed requests n times with backoff (default: 2)",
     "  --stdout                 📤 Print generated result to stdout instead of writing file",
+    "  --dry-run                🧪 Generate without writing the output file or lockfile",
+    "  --impact                 🔎 With --dry-run, list project files the new .gitignore newly ignores or stops ignoring",
     "  -t, --template <names>   🗂  Select templates directly (comma separated or repeated)",
     "  -a, --auto               🤖 Detect templates from current project layout",
+    "  --add <names>            ➕ Add templates to the existing generated block",
+    "  --remove <names>         ➖ Remove templates from the existing generated block",
+    "  --dedupe <mode>          🧮 Drop repeated rules by meaning (semantic, default), by spelling (exact) or not at all (off)",
     "  -s, --simple-sepration   📋 Toggle template headers to `## <Template>` and omit IGNORE-HUB watermarks",
     "  --no-interactive         🚀 Skip TUI and run in direct generation mode",
+    "  -y, --yes                ✅ Apply `ih update` changes without asking",
     "  -h, --help               ❓ Show help",
     "  -v, --version            🧭 Print installed version",
   ].join("\n");
@@ -48,6 +96,76 @@ function getRequiredValue(argv: string[], index: number, flag: string): string {
   return value;
 }
 
+function parseCommand(positionals: string[]): CliCommand | null {
+  const [name, ...rest] = positionals;
+  if (name === undefined) {
+    return null;
+  }
+  if (name === "update") {
+    if (rest.length > 0) {
+      throw new Error(`Unknown argument: ${rest[0]}`);
+    }
+    return { kind: "update" };
+  }
+  if (name === "check") {
+    if (rest.length === 0) {
+      throw new Error("Missing path for check");
+    }
+    return { kind: "check", paths: rest };
+  }
+  if (name !== "cache") {
+    throw new Error(`Unknown argument: ${name}`);
+  }
+  return parseCacheCommand(rest);
+}
+
+function parseCacheCommand([action, ...rest]: string[]): CacheCommand {
+  const knownAction = CACHE_ACTIONS.find((candidate) => candidate === action);
+  if (!knownAction) {
+    throw new Error(
+      action === undefined
+        ? `Missing cache action (expected ${CACHE_ACTIONS.join(", ")})`
+        : `Unknown cache action: ${action}`
+    );
+  }
+
+  if (knownAction === "export" || knownAction === "import") {
+    const [file, ...extra] = rest;
+    if (!file) {
+      throw new Error(`Missing file for cache ${knownAction}`);
+    }
+    if (extra.length > 0) {
+      throw new Error(`Unknown argument: ${extra[0]}`);
+    }
+    return {
+      action: knownAction,
+      file: resolve(process.cwd(), file),
+      kind: "cache",
+    };
+  }
+
+  if (rest.length > 0) {
+    throw new Error(`Unknown argument: ${rest[0]}`);
+  }
+  return { action: knownAction, kind: "cache" };
+}
+
+function getIntegerValue(
+  argv: string[],
+  index: number,
+  flag: string,
+  minimum: number
+): number {
+  const value = getRequiredValue(argv, index, flag);
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < minimum) {
+    throw new Error(
+      `Invalid value for ${flag}: ${value} (expected an integer >= ${minimum})`
+    );
+  }
+  return parsed;
+}
+
 function addTemplateValueFromArg(
   argv: string[],
   index: number,
@@ -70,17 +188,96 @@ function addTemplateValueFromAssignment(
   addTemplateValues(value, templates);
 }
 
+function validateOptionCombinations(
+  options: CliOptions,
+  command: CliCommand | null
+): void {
+  if (options.refresh && options.offline) {
+    throw new Error("--refresh cannot be combined with --offline");
+  }
+
+  const incremental =
+    options.addTemplates.length > 0 || options.removeTemplates.length > 0;
+  const selecting = options.auto || options.templates.length > 0;
+  if (options.frozen && (options.refresh || selecting || incremental)) {
+    throw new Error(
+      "--frozen reads templates from ignore-hub.lock and cannot be combined with --template, --auto, --add, --remove or --refresh"
+    );
+  }
+
+  if (incremental && selecting) {
+    throw new Error(
+      "--add and --remove edit the existing block and cannot be combined with --template or --auto"
+    );
+  }
+  if (incremental && options.useSimpleSectionSeparator) {
+    throw new Error(
+      "--add and --remove need the IGNORE-HUB markers and cannot be combined with -s"
+    );
+  }
+
+  if (
+    command?.kind === "update" &&
+    (options.frozen ||
+      selecting ||
+      incremental ||
+      options.useSimpleSectionSeparator)
+  ) {
+    throw new Error(
+      "ih update reads templates from the generated block and cannot be combined with --template, --auto, --add, --remove, --frozen or -s"
+    );
+  }
+  validateDryRunOptions(options, command, selecting || incremental);
+  if (command?.kind === "check" && options.frozen) {
+    throw new Error("ih check cannot be combined with --frozen");
+  }
+}
+
+function validateDryRunOptions(
+  options: CliOptions,
+  command: CliCommand | null,
+  generating: boolean
+): void {
+  if (options.impact && !options.dryRun) {
+    throw new Error("--impact is only available together with --dry-run");
+  }
+  if (options.dryRun && (command !== null || options.frozen || !generating)) {
+    throw new Error(
+      "--dry-run previews direct generation and needs --template, --auto, --add or --remove"
+    );
+  }
+}
+
 export function parseCliOptions(argv: string[]): ParseResult {
   let output = resolve(process.cwd(), ".gitignore");
   let refresh = false;
+  let offline = false;
+  let frozen = false;
+  let ref = DEFAULT_TEMPLATE_REF;
+  const explicitOptions: ExplicitOption[] = [];
+  let sourceDir: string | null = null;
+  let apiUrl: string | null = null;
+  let cacheDir: string | null = null;
+  let cacheMaxAge: string | null = null;
+  let rawUrl: string | null = null;
+  let repo: string | null = null;
+  let proxy: string | null = null;
+  let { concurrency, retries, timeoutMs } = DEFAULT_FETCH_PIPELINE_OPTIONS;
   let stdout = false;
   const templates: string[] = [];
+  const addTemplates: string[] = [];
+  const removeTemplates: string[] = [];
   let auto = false;
   let nonInteractive = false;
   let includeWatermark = true;
   let useSimpleSectionSeparator = false;
+  let dedupe = DEFAULT_DEDUPE_MODE;
+  let dryRun = false;
+  let impact = false;
+  let yes = false;
   let showHelp = false;
   let showVersion = false;
+  const positionals: string[] = [];
 
   for (let index = 0; index < argv.length; index += 1) {
     const arg = argv[index];
@@ -90,7 +287,8 @@ export function parseCliOptions(argv: string[]): ParseResult {
     }
 
     if (!arg.startsWith("-")) {
-      throw new Error(`Unknown argument: ${arg}`);
+      positionals.push(arg);
+      continue;
     }
 
     switch (arg) {
@@ -105,9 +303,21 @@ export function parseCliOptions(argv: string[]): ParseResult {
       case "--refresh":
         refresh = true;
         break;
+      case "--offline":
+        offline = true;
+        break;
+      case "--frozen":
+        frozen = true;
+        break;
       case "--stdout":
         stdout = true;
         break;
+      case "--dry-run":
+        dryRun = true;
+        break;
+      case "--impact":
+        impact = true;
+        break;
       case "-a":
       case "--auto":
         auto = true;
@@ -115,6 +325,10 @@ export function parseCliOptions(argv: string[]): ParseResult {
       case "--no-interactive":
         nonInteractive = true;
         break;
+      case "-y":
+      case "--yes":
+        yes = true;
+        break;
       case "-s":
       case "--simple-sepration":
         useSimpleSectionSeparator = true;
@@ -127,30 +341,127 @@ export function parseCliOptions(argv: string[]): ParseResult {
         index += 1;
         break;
       }
+      case "--ref":
+        ref = getRequiredValue(argv, index, "--ref");
+        explicitOptions.push("ref");
+        index += 1;
+        break;
+      case "--api-url":
+        apiUrl = getRequiredValue(argv, index, "--api-url");
+        index += 1;
+        break;
+      case "--raw-url":
+        rawUrl = getRequiredValue(argv, index, "--raw-url");
+        index += 1;
+        break;
+      case "--repo":
+        repo = getRequiredValue(argv, index, "--repo");
+        index += 1;
+        break;
+      case "--proxy":
+        proxy = parseProxyUrl(getRequiredValue(argv, index, "--proxy"));
+        index += 1;
+        break;
+      case "--source-dir": {
+        const sourceDirValue = getRequiredValue(argv, index, "--source-dir");
+        sourceDir = resolve(process.cwd(), sourceDirValue);
+        index += 1;
+        break;
+      }
+      case "--cache-dir": {
+        const cacheDirValue = getRequiredValue(argv, index, "--cache-dir");
+        cacheDir = resolve(process.cwd(), cacheDirValue);
+        index += 1;
+        break;
+      }
+      case "--max-age":
+        cacheMaxAge = getRequiredValue(argv, index, "--max-age");
+        parseMaxAge(cacheMaxAge);
+        index += 1;
+        break;
+      case "--concurrency":
+        concurrency = getIntegerValue(argv, index, "--concurrency", 1);
+        index += 1;
+        break;
+      case "--timeout":
+        timeoutMs = getIntegerValue(argv, index, "--timeout", 1);
+        index += 1;
+        break;
+      case "--retries":
+        retries = getIntegerValue(argv, index, "--retries", 0);
+        index += 1;
+        break;
       case "-t":
       case "--template":
         index = addTemplateValueFromArg(argv, index, templates);
         break;
+      case "--add":
+        addTemplateValues(getRequiredValue(argv, index, "--add"), addTemplates);
+        index += 1;
+        break;
+      case "--dedupe":
+        dedupe = parseDedupeMode(getRequiredValue(argv, index, "--dedupe"));
+        explicitOptions.push("dedupe");
+        index += 1;
+        break;
+      case "--remove":
+        addTemplateValues(
+          getRequiredValue(argv, index, "--remove"),
+          removeTemplates
+        );
+        index += 1;
+        break;
       default:
         if (arg.startsWith("-t=") || arg.startsWith("--template=")) {
           addTemplateValueFromAssignment(arg, templates);
           break;
         }
+        if (arg.startsWith("--dedupe=")) {
+          dedupe = parseDedupeMode(arg.slice("--dedupe=".length));
+          explicitOptions.push("dedupe");
+          break;
+        }
         throw new Error(`Unknown argument: ${arg}`);
     }
   }
 
+  const command = parseCommand(positionals);
+  const options: CliOptions = {
+    addTemplates,
+    output,
+    refresh,
+    offline,
+    frozen,
+    ref,
+    apiUrl,
+    rawUrl,
+    cacheDir,
+    cacheMaxAge,
+    repo,
+    proxy,
+    registries: [],
+    removeTemplates,
+    sourceDir,
+    concurrency,
+    dedupe,
+    dryRun,
+    explicitOptions,
+    impact,
+    timeoutMs,
+    retries,
+    stdout,
+    templates,
+    auto,
+    nonInteractive,
+    includeWatermark,
+    useSimpleSectionSeparator,
+    yes,
+  };
+  validateOptionCombinations(options, command);
+
   return {
-    options: {
-      output,
-      refresh,
-      stdout,
-      templates,
-      auto,
-      nonInteractive,
-      includeWatermark,
-      useSimpleSectionSeparator,
-    },
+    command,
+    options,
     showHelp,
     showVersion,
   };
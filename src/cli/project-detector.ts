@@ -1121,39 +1121,72 @@ function isSkippableDir(name: string): boolean {
   );
 }
 
-async function hasFileWithExtension(
+export interface ProjectTreeEntry {
+  // Number of directories between the walk root and the entry.
+  depth: number;
+  isDirectory: boolean;
+  isFile: boolean;
+  name: string;
+  // Relative to the walk root, "/"-separated.
+  path: string;
+}
+
+// "skip" leaves a directory's contents out, "stop" ends the whole walk.
+export type ProjectTreeVisitResult = "continue" | "skip" | "stop";
+
+// Depth-first walk that does not follow symlinks. Returns false when `visit` stopped it.
+export async function walkProjectTree(
   root: string,
-  extension: string,
-  maxDepth: number,
-  currentDepth = 0
+  visit: (
+    entry: ProjectTreeEntry
+  ) => ProjectTreeVisitResult | Promise<ProjectTreeVisitResult>,
+  directory = ""
 ): Promise<boolean> {
-  if (currentDepth > maxDepth) {
-    return false;
-  }
-
-  const entries = await readdir(root, { withFileTypes: true }).catch(() => []);
+  const entries = await readdir(join(root, directory), {
+    withFileTypes: true,
+  }).catch(() => []);
   for (const entry of entries) {
-    if (entry.isDirectory()) {
-      if (!isSkippableDir(entry.name)) {
-        const found = await hasFileWithExtension(
-          join(root, entry.name),
-          extension,
-          maxDepth,
-          currentDepth + 1
-        );
-        if (found) {
-          return true;
-        }
-      }
-      continue;
+    const path = directory ? `${directory}/${entry.name}` : entry.name;
+    const result = await visit({
+      depth: directory ? directory.split("/").length : 0,
+      isDirectory: entry.isDirectory(),
+      isFile: entry.isFile(),
+      name: entry.name,
+      path,
+    });
+    if (result === "stop") {
+      return false;
     }
-
-    if (entry.isFile() && entry.name.toLowerCase().endsWith(extension)) {
-      return true;
+    if (
+      result === "continue" &&
+      entry.isDirectory() &&
+      !(await walkProjectTree(root, visit, path))
+    ) {
+      return false;
     }
   }
+  return true;
+}
 
-  return false;
+async function hasFileWithExtension(
+  root: string,
+  extension: string,
+  maxDepth: number
+): Promise<boolean> {
+  let found = false;
+  await walkProjectTree(root, (entry) => {
+    if (entry.isDirectory) {
+      return isSkippableDir(entry.name) || entry.depth >= maxDepth
+        ? "skip"
+        : "continue";
+    }
+    if (entry.isFile && entry.name.toLowerCase().endsWith(extension)) {
+      found = true;
+      return "stop";
+    }
+    return "continue";
+  });
+  return found;
 }
 
 async function hasRootDirectoryWithPrefix(
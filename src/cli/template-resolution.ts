@@ -17,7 +17,7 @@ export interface TemplateResolutionIssue {
   matches: TemplateMeta[];
   query: string;
   rawQuery: string;
-  type: "unknown" | "ambiguous";
+  type: "unknown" | "ambiguous" | "cross-source";
 }
 
 export interface TemplateResolutionResult {
@@ -126,6 +126,49 @@ function makeFallbackCandidates(
   );
 }
 
+function countSources(templates: TemplateMeta[]): number {
+  return new Set(templates.map((template) => template.source)).size;
+}
+
+// Candidates spread across registries are narrowed to the highest priority source.
+function preferSourcePriority(
+  templates: TemplateMeta[],
+  sourcePriority: Record<string, number>
+): TemplateMeta[] {
+  if (countSources(templates) <= 1) {
+    return templates;
+  }
+
+  const priorityOf = (template: TemplateMeta) =>
+    sourcePriority[template.source ?? ""] ?? 0;
+  const best = Math.max(...templates.map(priorityOf));
+  return templates.filter((template) => priorityOf(template) === best);
+}
+
+function resolveCandidates(
+  candidates: TemplateMeta[],
+  query: string,
+  rawQuery: string,
+  sourcePriority: Record<string, number>
+): TemplateResolutionMatch[] | TemplateResolutionIssue[] | null {
+  const preferred = preferSourcePriority(candidates, sourcePriority);
+  const match = preferred[0];
+  if (preferred.length === 1 && match) {
+    return [{ template: match }];
+  }
+  if (preferred.length > 1) {
+    return [
+      {
+        query,
+        rawQuery,
+        type: countSources(preferred) > 1 ? "cross-source" : "ambiguous",
+        matches: preferred,
+      },
+    ];
+  }
+  return null;
+}
+
 function expandAliases(query: string): string[] {
   const normalized = normalize(query);
   return TEMPLATE_ALIASES[normalized] ?? [normalized];
@@ -133,7 +176,8 @@ function expandAliases(query: string): string[] {
 
 function resolveSingleQuery(
   templates: TemplateMeta[],
-  rawQuery: string
+  rawQuery: string,
+  sourcePriority: Record<string, number>
 ): TemplateResolutionMatch[] | TemplateResolutionIssue[] {
   const expandedQueries = expandAliases(rawQuery).map((value) =>
     normalize(value)
@@ -143,47 +187,34 @@ function resolveSingleQuery(
   const directQueries = [...new Set([...expandedQueries, rawNormalized])];
 
   for (const query of directQueries) {
-    const exactCandidates = makeExactCandidates(templates, query);
-    if (exactCandidates.length === 1) {
-      const match = exactCandidates[0];
-      if (match) {
-        return [{ template: match }];
-      }
-    }
-    if (exactCandidates.length > 1) {
-      return [
-        {
-          query,
-          rawQuery,
-          type: "ambiguous",
-          matches: exactCandidates,
-        },
-      ];
+    const exactResolution = resolveCandidates(
+      makeExactCandidates(templates, query),
+      query,
+      rawQuery,
+      sourcePriority
+    );
+    if (exactResolution) {
+      return exactResolution;
     }
 
-    const candidates = makeMatchQueryCandidates(templates, query);
-    if (candidates.length === 1) {
-      const match = candidates[0];
-      if (match) {
-        return [{ template: match }];
-      }
-    }
-    if (candidates.length > 1) {
-      return [
-        {
-          query,
-          rawQuery,
-          type: "ambiguous",
-          matches: candidates,
-        },
-      ];
+    const resolution = resolveCandidates(
+      makeMatchQueryCandidates(templates, query),
+      query,
+      rawQuery,
+      sourcePriority
+    );
+    if (resolution) {
+      return resolution;
     }
   }
 
   const fallbackCandidates = directQueries.flatMap((query) =>
     makeFallbackCandidates(templates, query)
   );
-  const dedupedFallback = dedupeTemplateIds(fallbackCandidates);
+  const dedupedFallback = preferSourcePriority(
+    dedupeTemplateIds(fallbackCandidates),
+    sourcePriority
+  );
   if (dedupedFallback.length === 1) {
     const match = dedupedFallback[0];
     if (match) {
@@ -203,7 +234,8 @@ function resolveSingleQuery(
 
 export function resolveTemplateQueries(
   templates: TemplateMeta[],
-  rawQueries: string[]
+  rawQueries: string[],
+  sourcePriority: Record<string, number> = {}
 ): TemplateResolutionResult {
   const selected: TemplateMeta[] = [];
   const issues: TemplateResolutionIssue[] = [];
@@ -216,7 +248,11 @@ export function resolveTemplateQueries(
       continue;
     }
 
-    const resolutions = resolveSingleQuery(templates, trimmedQuery);
+    const resolutions = resolveSingleQuery(
+      templates,
+      trimmedQuery,
+      sourcePriority
+    );
     const first = resolutions[0];
     if (!first) {
       continue;
@@ -246,7 +282,13 @@ export function renderTemplateResolutionMessage(
   const lines: string[] = [];
 
   for (const issue of issues) {
-    if (issue.type === "ambiguous") {
+    if (issue.type === "cross-source") {
+      lines.push(
+        `Template "${issue.rawQuery}" exists in several sources: ${issue.matches
+          .map((match) => match.id)
+          .join(", ")}. Use a qualified id or set a source priority.`
+      );
+    } else if (issue.type === "ambiguous") {
       lines.push(
         `Template "${issue.rawQuery}" is ambiguous. Did you mean one of: ${issue.matches
           .map((match) => match.id)
@@ -0,0 +1,154 @@
+import { createInterface } from "node:readline/promises";
+import {
+  buildBlockMetadata,
+  loadPreviousBlockBody,
+} from "../data/block-metadata";
+import { resolveCacheDir } from "../data/cache-store";
+import { buildSourcePriority } from "../data/registries";
+import {
+  mergeGitignoreWithEdits,
+  parseGeneratedSections,
+  readGeneratedMetadata,
+} from "../domain/merge-gitignore";
+import {
+  diffGeneratedSections,
+  type SectionRuleDiff,
+} from "../domain/section-diff";
+import type { CliOptions, TemplateSourceResolver } from "../domain/types";
+import {
+  applyGeneratedMetadata,
+  downloadTemplates,
+  readBlockSections,
+  readExistingOutput,
+  reportMergeWarnings,
+  resolveSectionTemplates,
+  selectReportStream,
+  withTemplateIndex,
+  writeGeneratedOutput,
+} from "./direct-generation";
+
+export type ConfirmUpdate = (question: string) => Promise<boolean>;
+
+const YES_ANSWER_PATTERN = /^y(es)?$/i;
+
+async function confirmOnTerminal(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    throw new Error("ih update needs --yes when stdin is not a terminal.");
+  }
+  const prompt = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    const answer = await prompt.question(`${question} [y/N] `);
+    return YES_ANSWER_PATTERN.test(answer.trim());
+  } finally {
+    prompt.close();
+  }
+}
+
+export function renderUpdateSummary(diffs: SectionRuleDiff[]): string {
+  return diffs
+    .flatMap((diff) => {
+      if (diff.status === "unchanged") {
+        return [`  ${diff.id}: unchanged`];
+      }
+      const label = diff.status === "changed" ? "" : ` (${diff.status})`;
+      return [
+        `  ${diff.id}${label}: +${diff.added.length} -${diff.removed.length}`,
+        ...diff.added.map((rule) => `    + ${rule}`),
+        ...diff.removed.map((rule) => `    - ${rule}`),
+      ];
+    })
+    .join("\n");
+}
+
+// The template list comes from the section headers, checked against the recorded list, so
+// nobody has to remember the original -t.
+export async function runUpdateCommand(
+  cliOptions: CliOptions,
+  templateSources: TemplateSourceResolver,
+  confirm: ConfirmUpdate = confirmOnTerminal
+): Promise<void> {
+  const existingContent = await readExistingOutput(cliOptions.output);
+  const options = applyGeneratedMetadata(
+    cliOptions,
+    readGeneratedMetadata(existingContent ?? "")
+  );
+  const sections = readBlockSections(existingContent, options.output);
+  if (sections.length === 0) {
+    throw new Error(
+      `No IgnoreHub generated block in ${options.output}. Generate one with --template or --auto first.`
+    );
+  }
+
+  await withTemplateIndex(
+    options,
+    templateSources,
+    async (registries, indexResult) => {
+      const templates = resolveSectionTemplates(
+        sections,
+        indexResult.index.templates,
+        buildSourcePriority(registries),
+        options.output
+      );
+      const templatesWithSource = await downloadTemplates(
+        templates,
+        options,
+        registries,
+        templateSources
+      );
+      const merged = mergeGitignoreWithEdits({
+        dedupe: options.dedupe,
+        existingContent,
+        templates: templatesWithSource,
+        metadata: await buildBlockMetadata(options, registries),
+        previousBody: await loadPreviousBlockBody(
+          existingContent,
+          resolveCacheDir(options.cacheDir)
+        ),
+      });
+      const mergedContent = merged.content;
+      const log = selectReportStream(options);
+
+      if (mergedContent === existingContent) {
+        log.write(`✅ IgnoreHub: ${options.output} is up to date\n`);
+        if (options.stdout) {
+          process.stdout.write(mergedContent);
+        }
+        return;
+      }
+
+      const diffs = diffGeneratedSections(
+        sections,
+        parseGeneratedSections(mergedContent)
+      );
+      log.write(
+        `🔃 IgnoreHub: upstream changes for ${options.output}\n${renderUpdateSummary(diffs)}\n`
+      );
+      reportMergeWarnings(options, merged);
+
+      if (options.stdout) {
+        process.stdout.write(mergedContent);
+        return;
+      }
+      if (
+        !(
+          options.yes ||
+          (await confirm(`Apply these changes to ${options.output}?`))
+        )
+      ) {
+        log.write(`IgnoreHub: left ${options.output} unchanged\n`);
+        return;
+      }
+
+      await writeGeneratedOutput(
+        options,
+        merged,
+        indexResult,
+        templatesWithSource
+      );
+      log.write(`✅ IgnoreHub: updated ${options.output}\n`);
+    }
+  );
+}
@@ -0,0 +1,172 @@
+import { randomBytes } from "node:crypto";
+import {
+  mkdir,
+  open,
+  readFile,
+  rename,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { dirname } from "node:path";
+import { sleep } from "./fetch-pipeline";
+
+interface FileLockOptions {
+  retryDelayMs?: number;
+  staleMs?: number;
+  timeoutMs?: number;
+}
+
+const DEFAULT_LOCK_RETRY_DELAY_MS = 100;
+const DEFAULT_LOCK_STALE_MS = 60_000;
+const DEFAULT_LOCK_TIMEOUT_MS = 30_000;
+const TAKEOVER_SUFFIX = ".takeover";
+
+// Readers only ever see the old file or the complete new one, never a partial write.
+export async function writeFileAtomic(
+  path: string,
+  content: string
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+  try {
+    await writeFile(tempPath, content, "utf8");
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function createLockToken(): string {
+  return `${process.pid}:${randomBytes(8).toString("hex")}`;
+}
+
+async function tryAcquireLock(
+  lockPath: string,
+  token: string
+): Promise<boolean> {
+  try {
+    const handle = await open(lockPath, "wx");
+    await handle.writeFile(`${token}\n`, "utf8");
+    await handle.close();
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function readLockOwner(lockPath: string): Promise<string | null> {
+  try {
+    return (await readFile(lockPath, "utf8")).trim();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// The owner token of a lock that has not been touched for staleMs, or null.
+async function findStaleOwner(
+  lockPath: string,
+  staleMs: number
+): Promise<string | null> {
+  try {
+    const owner = await readLockOwner(lockPath);
+    const lockStat = await stat(lockPath);
+    return Date.now() - lockStat.mtimeMs > staleMs ? owner : null;
+  } catch (error) {
+    // The holder released it between our attempt and the check.
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Breaking a stale lock is serialized through a second lock and re-checked under it,
+// so a waiter that saw the same stale lock late cannot delete its successor's fresh one.
+async function takeOverStaleLock(
+  lockPath: string,
+  staleOwner: string,
+  token: string,
+  staleMs: number
+): Promise<void> {
+  const takeoverPath = `${lockPath}${TAKEOVER_SUFFIX}`;
+  if (!(await tryAcquireLock(takeoverPath, token))) {
+    // Only held for a moment, so a stale one was left by a crash.
+    if ((await findStaleOwner(takeoverPath, staleMs)) !== null) {
+      await rm(takeoverPath, { force: true });
+    }
+    return;
+  }
+
+  try {
+    if ((await findStaleOwner(lockPath, staleMs)) === staleOwner) {
+      await rm(lockPath, { force: true });
+    }
+  } finally {
+    await rm(takeoverPath, { force: true });
+  }
+}
+
+// Keeps the lock fresh while the task runs, so a slow refresh is never mistaken for a crash.
+function startLockHeartbeat(lockPath: string, staleMs: number): () => void {
+  const timer = setInterval(
+    () => {
+      const now = new Date();
+      utimes(lockPath, now, now).catch(() => undefined);
+    },
+    Math.max(1, Math.floor(staleMs / 3))
+  );
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+async function releaseLock(lockPath: string, token: string): Promise<void> {
+  if ((await readLockOwner(lockPath)) === token) {
+    await rm(lockPath, { force: true });
+  }
+}
+
+// Advisory lock: a crashed holder leaves a stale file that is taken over after staleMs.
+export async function withFileLock<T>(
+  lockPath: string,
+  task: () => Promise<T>,
+  {
+    retryDelayMs = DEFAULT_LOCK_RETRY_DELAY_MS,
+    staleMs = DEFAULT_LOCK_STALE_MS,
+    timeoutMs = DEFAULT_LOCK_TIMEOUT_MS,
+  }: FileLockOptions = {}
+): Promise<T> {
+  await mkdir(dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + timeoutMs;
+  const token = createLockToken();
+
+  while (!(await tryAcquireLock(lockPath, token))) {
+    const staleOwner = await findStaleOwner(lockPath, staleMs);
+    if (staleOwner !== null) {
+      await takeOverStaleLock(lockPath, staleOwner, token, staleMs);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `Timed out waiting for ${lockPath}. Remove it if no other ignore-hub process is running.`
+      );
+    }
+    await sleep(retryDelayMs);
+  }
+
+  const stopHeartbeat = startLockHeartbeat(lockPath, staleMs);
+  try {
+    return await task();
+  } finally {
+    stopHeartbeat();
+    await releaseLock(lockPath, token);
+  }
+}
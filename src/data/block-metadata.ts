@@ -0,0 +1,93 @@
+import { readFile } from "node:fs/promises";
+import {
+  type BlockMetadataInput,
+  readGeneratedMetadata,
+} from "../domain/merge-gitignore";
+import type {
+  CliOptions,
+  GitHubTemplateRegistry,
+  TemplateRegistry,
+} from "../domain/types";
+import { readCachedBlockBody } from "./cache-store";
+import { DEFAULT_GITHUB_API_URL, DEFAULT_TEMPLATE_REF } from "./github-client";
+import { resolveRegistryEndpoint } from "./registries";
+
+declare const __IGNORE_HUB_VERSION__: string | undefined;
+
+export async function readPackageVersion(): Promise<string> {
+  if (
+    typeof __IGNORE_HUB_VERSION__ !== "undefined" &&
+    __IGNORE_HUB_VERSION__.length > 0
+  ) {
+    return __IGNORE_HUB_VERSION__;
+  }
+
+  const packageManifest = new URL("../../package.json", import.meta.url);
+  try {
+    const packageManifestContents = await readFile(packageManifest, "utf8");
+    const metadata = JSON.parse(packageManifestContents) as {
+      version?: string;
+    };
+
+    return metadata.version ?? "unknown";
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return "unknown";
+    }
+    throw error;
+  }
+}
+
+function findGitHubRegistry(
+  registries: TemplateRegistry[]
+): GitHubTemplateRegistry | null {
+  return (
+    registries.find(
+      (registry): registry is GitHubTemplateRegistry =>
+        registry.kind === "github"
+    ) ?? null
+  );
+}
+
+// The API host of the GitHub registry when it is not github.com.
+export function describeRegistryHost(
+  registries: TemplateRegistry[]
+): string | null {
+  const registry = findGitHubRegistry(registries);
+  const endpoint = registry ? resolveRegistryEndpoint(registry) : null;
+  if (!endpoint) {
+    return null;
+  }
+  const host = new URL(endpoint.apiUrl).host;
+  return host === new URL(DEFAULT_GITHUB_API_URL).host ? null : host;
+}
+
+// Ref and repo come from the GitHub registry, since they are what --ref and --repo set;
+// local directories have neither.
+export async function buildBlockMetadata(
+  options: Pick<CliOptions, "dedupe">,
+  registries: TemplateRegistry[]
+): Promise<BlockMetadataInput> {
+  const registry = findGitHubRegistry(registries);
+  const endpoint = registry ? resolveRegistryEndpoint(registry) : null;
+  return {
+    host: describeRegistryHost(registries),
+    options: { dedupe: options.dedupe },
+    ref: registry ? (registry.ref ?? DEFAULT_TEMPLATE_REF) : null,
+    repo: endpoint ? `${endpoint.owner}/${endpoint.repo}` : null,
+    version: await readPackageVersion(),
+  };
+}
+
+// The body the existing block was generated as, if it is still cached.
+export async function loadPreviousBlockBody(
+  existingContent: string | null,
+  cacheDir: string
+): Promise<string[] | null> {
+  const base = readGeneratedMetadata(existingContent ?? "")?.base;
+  if (!base) {
+    return null;
+  }
+  const body = await readCachedBlockBody(base, cacheDir);
+  return body === null ? null : body.split("\n");
+}
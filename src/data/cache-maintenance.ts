@@ -0,0 +1,317 @@
+import type { Dirent } from "node:fs";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  rmdir,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { dirname, isAbsolute, join, normalize, relative, sep } from "node:path";
+import { gunzipSync, gzipSync } from "node:zlib";
+import type { CacheIndex } from "../domain/types";
+import { writeFileAtomic } from "./atomic-file";
+import { parseCacheIndex } from "./cache-schema";
+
+const CACHE_ARCHIVE_FORMAT = "ignore-hub-cache";
+const CACHE_ARCHIVE_VERSION = 1;
+const BODY_DIR_NAME = "bodies";
+const BODY_PREFIX_PATTERN = /^[0-9a-f]{2}$/;
+const BLOCK_DIR_NAME = "blocks";
+// Block copies of other projects cannot be seen from here, so recent ones are kept too.
+const BLOCK_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const CACHE_DIR_ENTRIES = new Set([
+  "index.json",
+  "refs",
+  "mirrors",
+  BODY_DIR_NAME,
+  BLOCK_DIR_NAME,
+]);
+// The index lock, its takeover lock and the temp files of an interrupted atomic write.
+const CACHE_FILE_LEFTOVER_PATTERN =
+  /^index\.json\.(?:lock(?:\.takeover)?|\d+\.[0-9a-f]+\.tmp)$/;
+
+export interface CachedIndexInfo {
+  fetchedAt: string;
+  origin?: string;
+  path: string;
+  sourceRef: string;
+  templateCount: number;
+}
+
+export interface CacheInfo {
+  bodyCount: number;
+  directory: string;
+  indexes: CachedIndexInfo[];
+  sizeBytes: number;
+}
+
+export interface CachePruneResult {
+  freedBytes: number;
+  removedBlocks: number;
+  removedBodies: number;
+}
+
+interface CacheArchiveEntry {
+  content: string;
+  path: string;
+}
+
+interface CacheArchive {
+  entries: CacheArchiveEntry[];
+  exportedAt: string;
+  format: typeof CACHE_ARCHIVE_FORMAT;
+  version: typeof CACHE_ARCHIVE_VERSION;
+}
+
+async function listFiles(directory: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(entryPath)));
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+function isBodyFile(cacheDir: string, file: string): boolean {
+  const parts = relative(cacheDir, file).split(sep);
+  return (
+    parts.length === 3 &&
+    parts[0] === BODY_DIR_NAME &&
+    BODY_PREFIX_PATTERN.test(parts[1] ?? "")
+  );
+}
+
+function isBlockFile(cacheDir: string, file: string): boolean {
+  const parts = relative(cacheDir, file).split(sep);
+  return parts.length === 2 && parts[0] === BLOCK_DIR_NAME;
+}
+
+// Every JSON file outside bodies/ is an index: index.json, refs/* and mirrors/*/*.
+function isIndexFile(cacheDir: string, file: string): boolean {
+  const path = relative(cacheDir, file);
+  return path.endsWith(".json") && !path.startsWith(`${BODY_DIR_NAME}${sep}`);
+}
+
+async function readIndexFile(path: string): Promise<CacheIndex | null> {
+  try {
+    const parsed = parseCacheIndex(
+      JSON.parse(await readFile(path, "utf8")) as unknown
+    );
+    return parsed.status === "ok" ? parsed.index : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readCachedIndexes(
+  cacheDir: string,
+  files: string[]
+): Promise<Array<{ index: CacheIndex; path: string }>> {
+  const indexes: Array<{ index: CacheIndex; path: string }> = [];
+  for (const file of files.filter((path) => isIndexFile(cacheDir, path))) {
+    const index = await readIndexFile(file);
+    if (index) {
+      indexes.push({ index, path: file });
+    }
+  }
+  return indexes;
+}
+
+export async function getCacheInfo(cacheDir: string): Promise<CacheInfo> {
+  const files = await listFiles(cacheDir);
+  let sizeBytes = 0;
+  for (const file of files) {
+    sizeBytes += (await stat(file)).size;
+  }
+
+  const indexes = await readCachedIndexes(cacheDir, files);
+  return {
+    bodyCount: files.filter((file) => isBodyFile(cacheDir, file)).length,
+    directory: cacheDir,
+    indexes: indexes.map(({ index, path }) => ({
+      fetchedAt: index.fetchedAt,
+      ...(index.origin ? { origin: index.origin } : {}),
+      path,
+      sourceRef: index.sourceRef,
+      templateCount: index.templates.length,
+    })),
+    sizeBytes,
+  };
+}
+
+function isCacheEntry(name: string): boolean {
+  return CACHE_DIR_ENTRIES.has(name) || CACHE_FILE_LEFTOVER_PATTERN.test(name);
+}
+
+// Only removes what ignore-hub writes, so a --cache-dir pointing at a project or home
+// directory is refused instead of wiped.
+export async function clearCache(cacheDir: string): Promise<void> {
+  let entries: string[];
+  try {
+    entries = (await readdir(cacheDir)).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return;
+    }
+    throw error;
+  }
+
+  const foreign = entries.filter((name) => !isCacheEntry(name));
+  if (foreign.length > 0) {
+    throw new Error(
+      `Refusing to clear ${cacheDir}: it contains files ignore-hub did not create (${foreign.slice(0, 3).join(", ")}${foreign.length > 3 ? ", ..." : ""}). Check --cache-dir and IGNORE_HUB_CACHE_DIR.`
+    );
+  }
+  for (const name of entries) {
+    await rm(join(cacheDir, name), { recursive: true, force: true });
+  }
+  await rmdir(cacheDir);
+}
+
+// Bodies referenced by any cached index are kept so pinned refs stay usable offline. Block
+// copies are kept when `keepBlocks` names them or they were written in the last 30 days.
+export async function pruneCache(
+  cacheDir: string,
+  keepBlocks: string[] = [],
+  now = Date.now()
+): Promise<CachePruneResult> {
+  const files = await listFiles(cacheDir);
+  const indexes = await readCachedIndexes(cacheDir, files);
+  const referenced = new Set(
+    indexes.flatMap(({ index }) =>
+      index.templates.flatMap((template) =>
+        template.sha ? [template.sha] : []
+      )
+    )
+  );
+
+  const result: CachePruneResult = {
+    freedBytes: 0,
+    removedBlocks: 0,
+    removedBodies: 0,
+  };
+  for (const file of files) {
+    const name = file.split(sep).pop() ?? "";
+    const fileStat = await stat(file);
+    if (isBodyFile(cacheDir, file) && !referenced.has(name)) {
+      result.removedBodies += 1;
+    } else if (
+      isBlockFile(cacheDir, file) &&
+      !keepBlocks.includes(name) &&
+      now - fileStat.mtimeMs > BLOCK_MAX_AGE_MS
+    ) {
+      result.removedBlocks += 1;
+    } else {
+      continue;
+    }
+    result.freedBytes += fileStat.size;
+    await rm(file, { force: true });
+  }
+  return result;
+}
+
+export async function exportCache(
+  cacheDir: string,
+  archivePath: string
+): Promise<number> {
+  const files = await listFiles(cacheDir);
+  if (files.length === 0) {
+    throw new Error(`Nothing to export: ${cacheDir} is empty.`);
+  }
+
+  const archive: CacheArchive = {
+    entries: [],
+    exportedAt: new Date().toISOString(),
+    format: CACHE_ARCHIVE_FORMAT,
+    version: CACHE_ARCHIVE_VERSION,
+  };
+  for (const file of files) {
+    archive.entries.push({
+      content: await readFile(file, "utf8"),
+      // Archives always use "/" so they can move between platforms.
+      path: relative(cacheDir, file).split(sep).join("/"),
+    });
+  }
+
+  await mkdir(dirname(archivePath), { recursive: true });
+  await writeFile(archivePath, gzipSync(JSON.stringify(archive)));
+  return archive.entries.length;
+}
+
+function isCacheArchive(value: unknown): value is CacheArchive {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const candidate = value as Partial<CacheArchive>;
+  return (
+    candidate.format === CACHE_ARCHIVE_FORMAT &&
+    candidate.version === CACHE_ARCHIVE_VERSION &&
+    Array.isArray(candidate.entries) &&
+    candidate.entries.every(
+      (entry) =>
+        typeof entry === "object" &&
+        entry !== null &&
+        typeof entry.path === "string" &&
+        typeof entry.content === "string"
+    )
+  );
+}
+
+function resolveArchiveEntryPath(cacheDir: string, entryPath: string): string {
+  const normalized = normalize(entryPath);
+  if (
+    isAbsolute(normalized) ||
+    normalized === ".." ||
+    normalized.startsWith(`..${sep}`)
+  ) {
+    throw new Error(`Refusing to import ${entryPath}: path escapes the cache.`);
+  }
+  return join(cacheDir, normalized);
+}
+
+export async function importCache(
+  cacheDir: string,
+  archivePath: string
+): Promise<number> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(
+      gunzipSync(await readFile(archivePath)).toString("utf8")
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw error;
+    }
+    throw new Error(`${archivePath} is not an ignore-hub cache archive.`);
+  }
+  if (!isCacheArchive(parsed)) {
+    throw new Error(`${archivePath} is not an ignore-hub cache archive.`);
+  }
+
+  // Resolve every path first so a bad entry aborts before anything is written.
+  const targets = parsed.entries.map((entry) => ({
+    content: entry.content,
+    path: resolveArchiveEntryPath(cacheDir, entry.path),
+  }));
+  for (const target of targets) {
+    await writeFileAtomic(target.path, target.content);
+  }
+  return targets.length;
+}
@@ -0,0 +1,116 @@
+import type { CacheIndex, HttpValidators, TemplateMeta } from "../domain/types";
+import { DEFAULT_TEMPLATE_ORIGIN } from "./github-client";
+
+export const CACHE_SCHEMA_VERSION = 2;
+
+type RawCacheIndex = Record<string, unknown>;
+type CacheMigration = (raw: RawCacheIndex) => RawCacheIndex;
+
+export type CacheIndexParseResult =
+  | { index: CacheIndex; migrated: boolean; status: "ok" }
+  | { schemaVersion: number; status: "newer" }
+  | { status: "invalid" };
+
+// Each migration upgrades a cache file from its key version to the next one.
+const CACHE_MIGRATIONS: Record<number, CacheMigration> = {
+  // v1 files carry no schemaVersion; the ones without an origin came from github.com.
+  1: (raw) => ({
+    ...raw,
+    origin:
+      typeof raw.origin === "string" ? raw.origin : DEFAULT_TEMPLATE_ORIGIN,
+    schemaVersion: 2,
+  }),
+};
+
+export function isTemplateMeta(value: unknown): value is TemplateMeta {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const candidate = value as Partial<TemplateMeta>;
+  return (
+    typeof candidate.id === "string" &&
+    typeof candidate.name === "string" &&
+    typeof candidate.path === "string" &&
+    (candidate.sha === undefined || typeof candidate.sha === "string") &&
+    (candidate.source === undefined || typeof candidate.source === "string") &&
+    (candidate.category === undefined ||
+      typeof candidate.category === "string") &&
+    (candidate.kind === "language" ||
+      candidate.kind === "framework" ||
+      candidate.kind === "global" ||
+      candidate.kind === "community")
+  );
+}
+
+export function isHttpValidators(value: unknown): value is HttpValidators {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const candidate = value as Partial<HttpValidators>;
+  return (
+    (candidate.etag === undefined || typeof candidate.etag === "string") &&
+    (candidate.lastModified === undefined ||
+      typeof candidate.lastModified === "string")
+  );
+}
+
+export function isCacheIndex(value: unknown): value is CacheIndex {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const candidate = value as Partial<CacheIndex>;
+  return (
+    typeof candidate.fetchedAt === "string" &&
+    typeof candidate.sourceRef === "string" &&
+    Array.isArray(candidate.templates) &&
+    candidate.templates.every((template) => isTemplateMeta(template)) &&
+    (candidate.origin === undefined || typeof candidate.origin === "string") &&
+    (candidate.schemaVersion === undefined ||
+      typeof candidate.schemaVersion === "number") &&
+    (candidate.validators === undefined ||
+      isHttpValidators(candidate.validators))
+  );
+}
+
+function readSchemaVersion(raw: RawCacheIndex): number | null {
+  if (raw.schemaVersion === undefined) {
+    return 1;
+  }
+  return typeof raw.schemaVersion === "number" &&
+    Number.isInteger(raw.schemaVersion) &&
+    raw.schemaVersion >= 1
+    ? raw.schemaVersion
+    : null;
+}
+
+export function parseCacheIndex(value: unknown): CacheIndexParseResult {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { status: "invalid" };
+  }
+
+  let raw = value as RawCacheIndex;
+  let version = readSchemaVersion(raw);
+  if (version === null) {
+    return { status: "invalid" };
+  }
+  if (version > CACHE_SCHEMA_VERSION) {
+    return { schemaVersion: version, status: "newer" };
+  }
+
+  const migrated = version < CACHE_SCHEMA_VERSION;
+  while (version < CACHE_SCHEMA_VERSION) {
+    const migrate = CACHE_MIGRATIONS[version];
+    if (!migrate) {
+      return { status: "invalid" };
+    }
+    raw = migrate(raw);
+    version += 1;
+  }
+
+  return isCacheIndex(raw)
+    ? { index: raw, migrated, status: "ok" }
+    : { status: "invalid" };
+}
@@ -1,114 +1,642 @@
-import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
 import { homedir } from "node:os";
-import { dirname, join } from "node:path";
-import { buildCacheIndex } from "../domain/classification";
+import { join, resolve } from "node:path";
+import { buildCacheIndex, mergeCacheIndexes } from "../domain/classification";
+import { computeBlobSha } from "../domain/content-hash";
 import type {
   CacheIndex,
+  HttpValidators,
+  IndexLoadOptions,
   IndexLoadResult,
+  RequestRetryOptions,
   TemplateMeta,
+  TemplateRegistry,
+  TemplateSource,
+  TemplateSourceResolver,
 } from "../domain/types";
-import { fetchTemplatePaths } from "./github-client";
+import { withFileLock, writeFileAtomic } from "./atomic-file";
+import {
+  CACHE_SCHEMA_VERSION,
+  isHttpValidators,
+  parseCacheIndex,
+} from "./cache-schema";
+import {
+  DEFAULT_FETCH_PIPELINE_OPTIONS,
+  formatError,
+  requestWithRetry,
+} from "./fetch-pipeline";
+import {
+  DEFAULT_TEMPLATE_ORIGIN,
+  DEFAULT_TEMPLATE_REF,
+  resolveGitHubEndpoint,
+} from "./github-client";
+import {
+  LOCAL_SOURCE_REF,
+  readLocalTemplateEntries,
+  readLocalTemplateSource,
+} from "./local-source";
+import { findTemplateRegistry } from "./registries";
+import {
+  describeTemplateSnapshot,
+  findSnapshotIndex,
+  getEmbeddedSnapshot,
+  readSnapshotSource,
+} from "./template-snapshot";
+import { createGitHubTemplateSource } from "./template-source";
 
-const CACHE_FILE_PATH = join(homedir(), ".cache", "ignore-hub", "index.json");
+const CACHE_DIR_NAME = "ignore-hub";
+const CACHE_FILE_NAME = "index.json";
+const REF_CACHE_DIR_NAME = "refs";
+const MIRROR_CACHE_DIR_NAME = "mirrors";
+const BODY_CACHE_DIR_NAME = "bodies";
+const CACHE_LOCK_SUFFIX = ".lock";
+const BODY_VALIDATORS_DIR_NAME = "validators";
+const BLOCK_CACHE_DIR_NAME = "blocks";
+const BLOB_SHA_PATTERN = /^[0-9a-f]{40}$/;
 
-function isTemplateMeta(value: unknown): value is TemplateMeta {
-  if (typeof value !== "object" || value === null) {
-    return false;
-  }
-
-  const candidate = value as Partial<TemplateMeta>;
-  return (
-    typeof candidate.id === "string" &&
-    typeof candidate.name === "string" &&
-    typeof candidate.path === "string" &&
-    (candidate.kind === "language" ||
-      candidate.kind === "framework" ||
-      candidate.kind === "global")
-  );
+interface CacheIndexRead {
+  index: CacheIndex | null;
+  warning?: string;
 }
 
-function isCacheIndex(value: unknown): value is CacheIndex {
-  if (typeof value !== "object" || value === null) {
-    return false;
-  }
-
-  const candidate = value as Partial<CacheIndex>;
-  return (
-    typeof candidate.fetchedAt === "string" &&
-    candidate.sourceRef === "main" &&
-    Array.isArray(candidate.templates) &&
-    candidate.templates.every((template) => isTemplateMeta(template))
-  );
+interface TemplateSourceLoadOptions {
+  cacheDir: string;
+  offline: boolean;
+  registries: TemplateRegistry[];
+  signal?: AbortSignal;
+  templateSources: TemplateSourceResolver;
 }
 
-function formatError(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
+// --cache-dir wins, then IGNORE_HUB_CACHE_DIR, then $XDG_CACHE_HOME/ignore-hub, then ~/.cache/ignore-hub.
+export function resolveCacheDir(override: string | null = null): string {
+  if (override) {
+    return override;
+  }
+  const fromEnv = process.env.IGNORE_HUB_CACHE_DIR;
+  if (fromEnv && fromEnv.length > 0) {
+    return resolve(fromEnv);
   }
-  return String(error);
+  const cacheHome = process.env.XDG_CACHE_HOME;
+  if (cacheHome && cacheHome.length > 0) {
+    return join(resolve(cacheHome), CACHE_DIR_NAME);
+  }
+  return join(homedir(), ".cache", CACHE_DIR_NAME);
 }
 
-export function resolveCacheFilePath(): string {
-  return CACHE_FILE_PATH;
+// The default ref keeps the original location; pinned refs are cached side by side
+// and every other origin (mirrors, custom sources) gets its own directory.
+export function resolveCacheFilePath(
+  ref: string = DEFAULT_TEMPLATE_REF,
+  origin: string = DEFAULT_TEMPLATE_ORIGIN,
+  cacheDir: string = resolveCacheDir()
+): string {
+  if (origin !== DEFAULT_TEMPLATE_ORIGIN) {
+    const mirrorKey = createHash("sha1")
+      .update(origin)
+      .digest("hex")
+      .slice(0, 16);
+    return join(
+      cacheDir,
+      MIRROR_CACHE_DIR_NAME,
+      mirrorKey,
+      `${encodeURIComponent(ref)}.json`
+    );
+  }
+  if (ref === DEFAULT_TEMPLATE_REF) {
+    return join(cacheDir, CACHE_FILE_NAME);
+  }
+  return join(cacheDir, REF_CACHE_DIR_NAME, `${encodeURIComponent(ref)}.json`);
 }
 
-export async function readCacheIndex(): Promise<CacheIndex | null> {
+export async function readCacheIndex(
+  ref: string = DEFAULT_TEMPLATE_REF,
+  origin: string = DEFAULT_TEMPLATE_ORIGIN,
+  cacheDir: string = resolveCacheDir()
+): Promise<CacheIndexRead> {
+  const cacheFilePath = resolveCacheFilePath(ref, origin, cacheDir);
+  let raw: string;
   try {
-    const raw = await readFile(CACHE_FILE_PATH, "utf8");
-    const parsed = JSON.parse(raw) as unknown;
-    if (!isCacheIndex(parsed)) {
-      return null;
-    }
-    return parsed;
+    raw = await readFile(cacheFilePath, "utf8");
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-      return null;
+      return { index: null };
     }
     throw error;
   }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    // A crash or an older non-atomic write can leave a truncated file behind; refetching repairs it.
+    return {
+      index: null,
+      warning: `Cache ${cacheFilePath} is corrupt; ignoring it.`,
+    };
+  }
+
+  const parsed = parseCacheIndex(value);
+  if (parsed.status === "newer") {
+    return {
+      index: null,
+      warning: `Cache ${cacheFilePath} was written by a newer ignore-hub (schema v${parsed.schemaVersion}, this version reads up to v${CACHE_SCHEMA_VERSION}); ignoring it.`,
+    };
+  }
+  if (
+    parsed.status === "invalid" ||
+    parsed.index.sourceRef !== ref ||
+    parsed.index.origin !== origin
+  ) {
+    return { index: null };
+  }
+
+  if (parsed.migrated) {
+    try {
+      await writeCacheIndex(parsed.index, cacheDir);
+    } catch {
+      // A read-only cache can still be used after migrating it in memory.
+    }
+  }
+  return { index: parsed.index };
+}
+
+export async function writeCacheIndex(
+  index: CacheIndex,
+  cacheDir: string = resolveCacheDir()
+): Promise<void> {
+  const cacheFilePath = resolveCacheFilePath(
+    index.sourceRef,
+    index.origin,
+    cacheDir
+  );
+  await writeFileAtomic(
+    cacheFilePath,
+    JSON.stringify({ ...index, schemaVersion: CACHE_SCHEMA_VERSION }, null, 2)
+  );
 }
 
-export async function writeCacheIndex(index: CacheIndex): Promise<void> {
-  await mkdir(dirname(CACHE_FILE_PATH), { recursive: true });
-  await writeFile(CACHE_FILE_PATH, JSON.stringify(index, null, 2), "utf8");
+export async function refreshTemplateIndex(
+  ref: string = DEFAULT_TEMPLATE_REF,
+  source: TemplateSource = createGitHubTemplateSource(resolveGitHubEndpoint()),
+  cacheDir: string = resolveCacheDir(),
+  retry: RequestRetryOptions = DEFAULT_FETCH_PIPELINE_OPTIONS
+): Promise<CacheIndex> {
+  // Parallel refreshes of the same index queue up; the later ones usually get a cheap 304.
+  return await withFileLock(
+    `${resolveCacheFilePath(ref, source.origin, cacheDir)}${CACHE_LOCK_SUFFIX}`,
+    () => refreshTemplateIndexUnlocked(ref, source, cacheDir, retry)
+  );
 }
 
-export async function refreshTemplateIndex(): Promise<CacheIndex> {
-  const paths = await fetchTemplatePaths();
-  const index = buildCacheIndex(paths);
-  await writeCacheIndex(index);
+async function refreshTemplateIndexUnlocked(
+  ref: string,
+  source: TemplateSource,
+  cacheDir: string,
+  retry: RequestRetryOptions
+): Promise<CacheIndex> {
+  const { index: cached } = await readCacheIndex(ref, source.origin, cacheDir);
+  const response = await requestWithRetry(
+    (signal) =>
+      source.listTemplates(ref, { signal, validators: cached?.validators }),
+    retry
+  );
+
+  let index: CacheIndex;
+  if (response.notModified) {
+    if (!cached) {
+      throw new Error(`Unexpected 304 for uncached template index "${ref}"`);
+    }
+    // The cached tree is still current; only its timestamp moves.
+    index = { ...cached, fetchedAt: new Date().toISOString() };
+  } else {
+    index = {
+      ...buildCacheIndex(response.value, ref),
+      origin: source.origin,
+      validators: response.validators,
+    };
+  }
+  await writeCacheIndex(index, cacheDir);
   return index;
 }
 
-export async function loadTemplateIndex(
-  refresh: boolean
+export async function loadLocalTemplateIndex(
+  sourceDir: string
+): Promise<CacheIndex> {
+  const entries = await readLocalTemplateEntries(sourceDir);
+  return buildCacheIndex(entries, LOCAL_SOURCE_REF);
+}
+
+function getCacheAgeMs(index: CacheIndex): number {
+  const fetchedAt = Date.parse(index.fetchedAt);
+  return Number.isNaN(fetchedAt)
+    ? Number.POSITIVE_INFINITY
+    : Date.now() - fetchedAt;
+}
+
+// Stale caches are still served; callers decide whether to refresh them.
+function toCachedResult(
+  index: CacheIndex,
+  maxAgeMs: number | null
+): IndexLoadResult {
+  const ageMs = getCacheAgeMs(index);
+  return {
+    index,
+    source: "cache",
+    ...(maxAgeMs !== null && ageMs > maxAgeMs ? { staleAgeMs: ageMs } : {}),
+  };
+}
+
+type RegistryIndexLoadOptions = Omit<IndexLoadOptions, "registries">;
+
+function joinWarnings(message: string, warning: string | undefined): string {
+  return warning ? `${message} ${warning}` : message;
+}
+
+function withWarning(
+  result: IndexLoadResult,
+  warning: string | undefined
+): IndexLoadResult {
+  if (!warning) {
+    return result;
+  }
+  return {
+    ...result,
+    warning: result.warning ? joinWarnings(result.warning, warning) : warning,
+  };
+}
+
+// Last resort for a standalone binary that has never been online.
+function toEmbeddedResult(
+  ref: string,
+  origin: string,
+  reason: string
+): IndexLoadResult | null {
+  const snapshot = getEmbeddedSnapshot();
+  const index = findSnapshotIndex(snapshot, ref, origin);
+  if (!(snapshot && index)) {
+    return null;
+  }
+  return {
+    index,
+    source: "embedded",
+    warning: `${reason} Using the templates bundled with this binary (${describeTemplateSnapshot(snapshot)}).`,
+  };
+}
+
+async function loadRemoteTemplateIndex(
+  ref: string,
+  source: TemplateSource,
+  { cacheDir, maxAgeMs, refresh, offline, retry }: RegistryIndexLoadOptions
 ): Promise<IndexLoadResult> {
-  if (!refresh) {
-    const cached = await readCacheIndex();
-    if (cached) {
-      return {
-        index: cached,
-        source: "cache",
-      };
+  const cached = await readCacheIndex(ref, source.origin, cacheDir);
+
+  if (offline) {
+    const embedded = cached.index
+      ? null
+      : toEmbeddedResult(ref, source.origin, "No cached gitignore index.");
+    if (embedded) {
+      return withWarning(embedded, cached.warning);
+    }
+    if (!cached.index) {
+      throw new Error(
+        joinWarnings(
+          `No cached gitignore index for ref "${ref}" at ${resolveCacheFilePath(ref, source.origin, cacheDir)}. Run once without --offline to download it.`,
+          cached.warning
+        )
+      );
     }
+    return withWarning(toCachedResult(cached.index, maxAgeMs), cached.warning);
+  }
+
+  if (!refresh && cached.index) {
+    return withWarning(toCachedResult(cached.index, maxAgeMs), cached.warning);
   }
 
   try {
-    const index = await refreshTemplateIndex();
-    return {
-      index,
-      source: "network",
-    };
+    const index = await refreshTemplateIndex(ref, source, cacheDir, retry);
+    return withWarning({ index, source: "network" }, cached.warning);
   } catch (error) {
-    const fallback = await readCacheIndex();
-    if (fallback) {
+    if (cached.index) {
       return {
-        index: fallback,
+        index: cached.index,
         source: "cache",
         warning: `Network refresh failed, using cache. ${formatError(error)}`,
       };
     }
 
+    const embedded = toEmbeddedResult(
+      ref,
+      source.origin,
+      `Failed to load gitignore index. ${formatError(error)}`
+    );
+    if (embedded) {
+      return withWarning(embedded, cached.warning);
+    }
+
+    throw new Error(
+      joinWarnings(
+        `Failed to load gitignore index. ${formatError(error)}`,
+        cached.warning
+      )
+    );
+  }
+}
+
+async function loadRegistryIndex(
+  registry: TemplateRegistry,
+  options: RegistryIndexLoadOptions
+): Promise<IndexLoadResult> {
+  if (registry.kind === "github") {
+    return loadRemoteTemplateIndex(
+      registry.ref ?? DEFAULT_TEMPLATE_REF,
+      options.templateSources(registry),
+      options
+    );
+  }
+
+  try {
+    return {
+      index: await loadLocalTemplateIndex(registry.path),
+      source: "local",
+    };
+  } catch (error) {
     throw new Error(`Failed to load gitignore index. ${formatError(error)}`);
   }
 }
+
+function combineLoadSources(
+  results: IndexLoadResult[]
+): IndexLoadResult["source"] {
+  if (results.some((result) => result.source === "network")) {
+    return "network";
+  }
+  if (results.some((result) => result.source === "cache")) {
+    return "cache";
+  }
+  if (results.some((result) => result.source === "embedded")) {
+    return "embedded";
+  }
+  return "local";
+}
+
+export async function loadTemplateIndex({
+  cacheDir,
+  maxAgeMs,
+  refresh,
+  offline,
+  registries,
+  retry,
+  templateSources,
+}: IndexLoadOptions): Promise<IndexLoadResult> {
+  const isMultiSource = registries.length > 1;
+  const loaded: Array<{ registry: TemplateRegistry; result: IndexLoadResult }> =
+    [];
+
+  for (const registry of registries) {
+    try {
+      const result = await loadRegistryIndex(registry, {
+        cacheDir,
+        maxAgeMs,
+        refresh,
+        offline,
+        retry,
+        templateSources,
+      });
+      loaded.push({ registry, result });
+    } catch (error) {
+      if (!isMultiSource) {
+        throw error;
+      }
+      throw new Error(`[${registry.name}] ${formatError(error)}`);
+    }
+  }
+
+  const results = loaded.map(({ result }) => result);
+  const warnings = loaded.flatMap(({ registry, result }) => {
+    if (!result.warning) {
+      return [];
+    }
+    return isMultiSource
+      ? [`[${registry.name}] ${result.warning}`]
+      : [result.warning];
+  });
+  const staleAges = results.flatMap((result) =>
+    result.staleAgeMs === undefined ? [] : [result.staleAgeMs]
+  );
+
+  return {
+    index: mergeCacheIndexes(
+      loaded.map(({ registry, result }) => ({
+        index: result.index,
+        source: registry.name,
+      }))
+    ),
+    source: combineLoadSources(results),
+    ...(staleAges.length > 0 ? { staleAgeMs: Math.max(...staleAges) } : {}),
+    ...(warnings.length > 0 ? { warning: warnings.join(" ") } : {}),
+  };
+}
+
+export function findNewTemplates(
+  previous: TemplateMeta[],
+  next: TemplateMeta[]
+): TemplateMeta[] {
+  const previousIds = new Set(previous.map((template) => template.id));
+  return next.filter((template) => !previousIds.has(template.id));
+}
+
+function resolveBodyCachePath(cacheDir: string, sha: string): string {
+  return join(cacheDir, BODY_CACHE_DIR_NAME, sha.slice(0, 2), sha);
+}
+
+export async function readCachedTemplateSource(
+  template: TemplateMeta,
+  cacheDir: string = resolveCacheDir()
+): Promise<string | null> {
+  if (!(template.sha && BLOB_SHA_PATTERN.test(template.sha))) {
+    return null;
+  }
+
+  try {
+    const source = await readFile(
+      resolveBodyCachePath(cacheDir, template.sha),
+      "utf8"
+    );
+    // Bodies are content-addressed, so a damaged one is detected and refetched.
+    return computeBlobSha(source) === template.sha ? source : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function writeCachedTemplateSource(
+  source: string,
+  cacheDir: string = resolveCacheDir()
+): Promise<string> {
+  const sha = computeBlobSha(source);
+  const bodyPath = resolveBodyCachePath(cacheDir, sha);
+  await writeFileAtomic(bodyPath, source);
+  return sha;
+}
+
+// Generated block bodies are kept so later runs can three-way merge hand edits against them.
+export async function readCachedBlockBody(
+  base: string,
+  cacheDir: string = resolveCacheDir()
+): Promise<string | null> {
+  if (!BLOB_SHA_PATTERN.test(base)) {
+    return null;
+  }
+
+  try {
+    const body = await readFile(
+      join(cacheDir, BLOCK_CACHE_DIR_NAME, base),
+      "utf8"
+    );
+    return computeBlobSha(body) === base ? body : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function writeCachedBlockBody(
+  body: string,
+  cacheDir: string = resolveCacheDir()
+): Promise<void> {
+  await writeFileAtomic(
+    join(cacheDir, BLOCK_CACHE_DIR_NAME, computeBlobSha(body)),
+    body
+  );
+}
+
+interface BodyValidators {
+  sha: string;
+  validators: HttpValidators;
+}
+
+// Validators are keyed by origin + ref + path because a moving branch can change the body behind a path.
+function resolveBodyValidatorsPath(
+  cacheDir: string,
+  origin: string,
+  ref: string,
+  path: string
+): string {
+  const key = createHash("sha1")
+    .update(`${origin}\0${ref}\0${path}`)
+    .digest("hex");
+  return join(
+    cacheDir,
+    BODY_CACHE_DIR_NAME,
+    BODY_VALIDATORS_DIR_NAME,
+    `${key}.json`
+  );
+}
+
+async function readBodyValidators(
+  cacheDir: string,
+  origin: string,
+  ref: string,
+  path: string
+): Promise<BodyValidators | null> {
+  try {
+    const parsed = JSON.parse(
+      await readFile(
+        resolveBodyValidatorsPath(cacheDir, origin, ref, path),
+        "utf8"
+      )
+    ) as Partial<BodyValidators>;
+    if (
+      typeof parsed.sha !== "string" ||
+      !isHttpValidators(parsed.validators)
+    ) {
+      return null;
+    }
+    return { sha: parsed.sha, validators: parsed.validators };
+  } catch {
+    return null;
+  }
+}
+
+async function writeBodyValidators(
+  cacheDir: string,
+  origin: string,
+  ref: string,
+  path: string,
+  entry: BodyValidators
+): Promise<void> {
+  const validatorsPath = resolveBodyValidatorsPath(cacheDir, origin, ref, path);
+  await writeFileAtomic(validatorsPath, JSON.stringify(entry));
+}
+
+export async function loadTemplateSource(
+  template: TemplateMeta,
+  {
+    cacheDir,
+    offline,
+    registries,
+    signal,
+    templateSources,
+  }: TemplateSourceLoadOptions
+): Promise<string> {
+  const registry = findTemplateRegistry(template.source, registries);
+  if (registry.kind === "directory") {
+    return readLocalTemplateSource(registry.path, template.path);
+  }
+
+  // A blob SHA hit is immutable, so the cache is always safe to use first.
+  const cached =
+    (await readCachedTemplateSource(template, cacheDir)) ??
+    readSnapshotSource(getEmbeddedSnapshot(), template);
+  if (cached !== null) {
+    return cached;
+  }
+
+  if (offline) {
+    throw new Error(
+      `Template ${template.id} is not cached. Run once without --offline to download it.`
+    );
+  }
+
+  const ref = registry.ref ?? DEFAULT_TEMPLATE_REF;
+  const source = templateSources(registry);
+  const previous = await readBodyValidators(
+    cacheDir,
+    source.origin,
+    ref,
+    template.path
+  );
+  const previousSource = previous
+    ? await readCachedTemplateSource(
+        { ...template, sha: previous.sha },
+        cacheDir
+      )
+    : null;
+  const response = await source.fetchTemplate(template.path, ref, {
+    signal,
+    validators: previousSource === null ? undefined : previous?.validators,
+  });
+  if (response.notModified && previousSource !== null) {
+    return previousSource;
+  }
+  if (response.notModified) {
+    throw new Error(`Unexpected 304 for uncached template ${template.id}`);
+  }
+
+  try {
+    const sha = await writeCachedTemplateSource(response.value, cacheDir);
+    await writeBodyValidators(cacheDir, source.origin, ref, template.path, {
+      sha,
+      validators: response.validators,
+    });
+  } catch {
+    // A read-only cache must not turn a successful download into a failure.
+  }
+  return response.value;
+}
@@ -0,0 +1,291 @@
+import type {
+  RequestRetryOptions,
+  TemplateMeta,
+  TemplateWithSource,
+} from "../domain/types";
+import { GitHubRateLimitError, GitHubRequestError } from "./github-client";
+import { ProxyError } from "./proxy";
+
+export interface FetchPipelineOptions extends RequestRetryOptions {
+  concurrency: number;
+}
+
+export type TemplateFetchFailureReason =
+  | "status"
+  | "timeout"
+  | "dns"
+  | "network"
+  | "rate-limit"
+  | "proxy"
+  | "error";
+
+export interface TemplateFetchFailure {
+  attempts: number;
+  message: string;
+  reason: TemplateFetchFailureReason;
+  status?: number;
+  template: TemplateMeta;
+}
+
+export interface TemplateFetchReport {
+  failures: TemplateFetchFailure[];
+  fetched: TemplateWithSource[];
+}
+
+export type TemplateSourceLoader = (
+  template: TemplateMeta,
+  signal: AbortSignal
+) => Promise<string>;
+
+interface ClassifiedFetchError {
+  reason: TemplateFetchFailureReason;
+  retryable: boolean;
+  status?: number;
+}
+
+type RetryOutcome<T> =
+  | { attempts: number; value: T }
+  | { attempts: number; classified: ClassifiedFetchError; error: unknown };
+
+export const DEFAULT_FETCH_PIPELINE_OPTIONS: FetchPipelineOptions = {
+  concurrency: 6,
+  retries: 2,
+  timeoutMs: 15_000,
+};
+
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DNS_ERROR_CODES = new Set([
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EAI_NODATA",
+  "EAI_NONAME",
+  "DNS_ENOTFOUND",
+]);
+// Bun names the failed lookup in the message; Node's fetch wraps it in `cause`.
+const DNS_ERROR_MESSAGE_PATTERN = /\bgetaddrinfo\b|\bDNS\b/;
+
+export function formatError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+}
+
+function readErrorCode(error: unknown): string | undefined {
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  if (typeof code === "string") {
+    return code;
+  }
+  const cause = error instanceof Error ? error.cause : undefined;
+  return cause === undefined ? undefined : readErrorCode(cause);
+}
+
+function isDnsError(error: unknown, code: string | undefined): boolean {
+  if (code !== undefined && DNS_ERROR_CODES.has(code)) {
+    return true;
+  }
+  return (
+    error instanceof Error &&
+    (error.name === "DNSException" ||
+      DNS_ERROR_MESSAGE_PATTERN.test(error.message))
+  );
+}
+
+export function classifyFetchError(error: unknown): ClassifiedFetchError {
+  if (error instanceof GitHubRateLimitError) {
+    return { reason: "rate-limit", retryable: false };
+  }
+  // Rejected proxy credentials will not fix themselves, but a proxy that dropped the connection might.
+  if (error instanceof ProxyError) {
+    return {
+      reason: "proxy",
+      retryable: error.status === null,
+      ...(error.status === null ? {} : { status: error.status }),
+    };
+  }
+  if (error instanceof GitHubRequestError) {
+    return {
+      reason: "status",
+      retryable: error.status >= 500,
+      status: error.status,
+    };
+  }
+  if (
+    error instanceof Error &&
+    (error.name === "TimeoutError" || error.name === "AbortError")
+  ) {
+    return { reason: "timeout", retryable: true };
+  }
+
+  const code = readErrorCode(error);
+  if (isDnsError(error, code)) {
+    return { reason: "dns", retryable: true };
+  }
+  // fetch rejects with a TypeError (or an errno-coded error) when the connection itself fails.
+  if (error instanceof TypeError || typeof code === "string") {
+    return { reason: "network", retryable: true };
+  }
+  return { reason: "error", retryable: false };
+}
+
+export function describeTemplateFetchFailure(
+  failure: TemplateFetchFailure
+): string {
+  const attempts =
+    failure.attempts > 1 ? ` after ${failure.attempts} attempts` : "";
+
+  switch (failure.reason) {
+    case "status":
+      return `${failure.template.name} (HTTP ${failure.status}${attempts})`;
+    case "timeout":
+      return `${failure.template.name} (timed out${attempts})`;
+    case "dns":
+      return `${failure.template.name} (DNS lookup failed${attempts})`;
+    case "network":
+      return `${failure.template.name} (network error${attempts}: ${failure.message})`;
+    case "rate-limit":
+      return `${failure.template.name} (rate limited)`;
+    case "proxy":
+      return `${failure.template.name} (proxy error${attempts})`;
+    default:
+      return `${failure.template.name} (${failure.message})`;
+  }
+}
+
+export function findRateLimitFailure(
+  report: TemplateFetchReport
+): TemplateFetchFailure | undefined {
+  return report.failures.find((failure) => failure.reason === "rate-limit");
+}
+
+export function findProxyFailure(
+  report: TemplateFetchReport
+): TemplateFetchFailure | undefined {
+  return report.failures.find((failure) => failure.reason === "proxy");
+}
+
+export function renderTemplateFetchReport(report: TemplateFetchReport): string {
+  const total = report.fetched.length + report.failures.length;
+  const summary = `Fetched ${report.fetched.length} of ${total} template(s). Failed: ${report.failures
+    .map((failure) => describeTemplateFetchFailure(failure))
+    .join(", ")}.`;
+  // Rate limit and proxy details are the same for every affected template, so show them once.
+  const details = [
+    findRateLimitFailure(report),
+    findProxyFailure(report),
+  ].flatMap((failure) => (failure ? [failure.message] : []));
+  return [summary, ...details].join(" ");
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolvePromise) => setTimeout(resolvePromise, ms));
+}
+
+async function attemptWithRetry<T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  { retries, timeoutMs }: RequestRetryOptions,
+  retryDelayMs: number
+): Promise<RetryOutcome<T>> {
+  let attempts = 0;
+
+  while (true) {
+    attempts += 1;
+    try {
+      return { attempts, value: await request(AbortSignal.timeout(timeoutMs)) };
+    } catch (error) {
+      const classified = classifyFetchError(error);
+      if (!classified.retryable || attempts > retries) {
+        return { attempts, classified, error };
+      }
+      await sleep(retryDelayMs * 2 ** (attempts - 1));
+    }
+  }
+}
+
+// Same timeout and backoff as template downloads, for single requests such as the index tree.
+export async function requestWithRetry<T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  options: RequestRetryOptions = DEFAULT_FETCH_PIPELINE_OPTIONS,
+  retryDelayMs: number = DEFAULT_RETRY_DELAY_MS
+): Promise<T> {
+  const outcome = await attemptWithRetry(request, options, retryDelayMs);
+  if ("error" in outcome) {
+    throw outcome.error;
+  }
+  return outcome.value;
+}
+
+async function fetchWithRetry(
+  template: TemplateMeta,
+  load: TemplateSourceLoader,
+  options: FetchPipelineOptions,
+  retryDelayMs: number
+): Promise<TemplateWithSource | TemplateFetchFailure> {
+  const outcome = await attemptWithRetry(
+    (signal) => load(template, signal),
+    options,
+    retryDelayMs
+  );
+  if (!("error" in outcome)) {
+    return { meta: template, source: outcome.value };
+  }
+
+  const { attempts, classified, error } = outcome;
+  return {
+    attempts,
+    message: formatError(error),
+    reason: classified.reason,
+    ...(classified.status === undefined ? {} : { status: classified.status }),
+    template,
+  };
+}
+
+function isFetchFailure(
+  result: TemplateWithSource | TemplateFetchFailure
+): result is TemplateFetchFailure {
+  return "reason" in result;
+}
+
+// Results keep the selection order so the merged output does not depend on which download finished first.
+export async function fetchTemplatesWithSource(
+  templates: TemplateMeta[],
+  load: TemplateSourceLoader,
+  options: FetchPipelineOptions = DEFAULT_FETCH_PIPELINE_OPTIONS,
+  retryDelayMs: number = DEFAULT_RETRY_DELAY_MS
+): Promise<TemplateFetchReport> {
+  const results: Array<TemplateWithSource | TemplateFetchFailure> = [];
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < templates.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      const template = templates[index];
+      if (!template) {
+        continue;
+      }
+      results[index] = await fetchWithRetry(
+        template,
+        load,
+        options,
+        retryDelayMs
+      );
+    }
+  };
+
+  const workerCount = Math.max(
+    1,
+    Math.min(options.concurrency, templates.length)
+  );
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  const report: TemplateFetchReport = { failures: [], fetched: [] };
+  for (const result of results) {
+    if (isFetchFailure(result)) {
+      report.failures.push(result);
+    } else {
+      report.fetched.push(result);
+    }
+  }
+  return report;
+}
@@ -1,5 +1,19 @@
+import { isSupportedTemplatePath } from "../domain/classification";
+import type {
+  ConditionalResponse,
+  GitHubEndpoint,
+  HttpValidators,
+  TemplateTreeEntry,
+} from "../domain/types";
+import {
+  resolveProxyUrl,
+  toProxyConnectionError,
+  toProxyStatusError,
+} from "./proxy";
+
 interface GitTreeEntry {
   path: string;
+  sha: string;
   type: "blob" | "tree";
 }
 
@@ -7,57 +21,354 @@ interface GitTreeResponse {
   tree: GitTreeEntry[];
 }
 
-const GITHUB_API_TREE_URL =
-  "https://api.github.com/repos/github/gitignore/git/trees/main?recursive=1";
-const RAW_BASE_URL = "https://raw.githubusercontent.com/github/gitignore/main";
-const ROOT_TEMPLATE_PATTERN = /^[^/]+\.gitignore$/;
-const GLOBAL_TEMPLATE_PATTERN = /^Global\/.+\.gitignore$/;
+export interface RequestOptions {
+  endpoint?: GitHubEndpoint;
+  fetch?: typeof fetch;
+  proxy?: string | null;
+  signal?: AbortSignal;
+  validators?: HttpValidators;
+}
 
-async function fetchJson<T>(url: string): Promise<T> {
-  const response = await fetch(url, {
-    headers: {
-      Accept: "application/vnd.github+json",
-      "User-Agent": "ignore-hub",
-    },
-  });
+export interface GitHubEndpointOverrides {
+  apiUrl?: string | null;
+  rawUrl?: string | null;
+  repo?: string | null;
+}
 
-  if (!response.ok) {
-    throw new Error(`Request failed (${response.status}) for ${url}`);
+export const DEFAULT_TEMPLATE_REF = "main";
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+export const DEFAULT_GITHUB_RAW_URL = "https://raw.githubusercontent.com";
+export const DEFAULT_TEMPLATE_REPO = "github/gitignore";
+export const DEFAULT_TEMPLATE_ORIGIN = `${DEFAULT_GITHUB_API_URL}/repos/${DEFAULT_TEMPLATE_REPO}`;
+
+const GITHUB_TOKEN_HOSTS = new Set([
+  new URL(DEFAULT_GITHUB_API_URL).host,
+  new URL(DEFAULT_GITHUB_RAW_URL).host,
+]);
+const HTTP_NOT_MODIFIED = 304;
+const GHES_API_PATH_PATTERN = /\/api\/v3$/;
+const TRAILING_SLASHES_PATTERN = /\/+$/;
+const REPO_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+export class GitHubRateLimitError extends Error {
+  readonly remaining: number | null;
+  readonly resetAt: Date | null;
+
+  constructor(message: string, remaining: number | null, resetAt: Date | null) {
+    super(message);
+    this.name = "GitHubRateLimitError";
+    this.remaining = remaining;
+    this.resetAt = resetAt;
+  }
+}
+
+export class GitHubRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "GitHubRequestError";
+    this.status = status;
+  }
+}
+
+export function resolveGitHubToken(): string | null {
+  const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+  return token && token.length > 0 ? token : null;
+}
+
+function isGitHubHost(url: URL): boolean {
+  return url.protocol === "https:" && GITHUB_TOKEN_HOSTS.has(url.host);
+}
+
+// GITHUB_TOKEN only ever goes to github.com; mirrors need their own IGNORE_HUB_TOKEN.
+export function resolveRequestToken(url: string): string | null {
+  if (isGitHubHost(new URL(url))) {
+    return resolveGitHubToken();
+  }
+  const token = process.env.IGNORE_HUB_TOKEN;
+  return token && token.length > 0 ? token : null;
+}
+
+function pickSetting(
+  override: string | null | undefined,
+  envName: string
+): string | null {
+  if (override) {
+    return override;
+  }
+  const fromEnv = process.env[envName];
+  return fromEnv && fromEnv.length > 0 ? fromEnv : null;
+}
+
+function normalizeBaseUrl(value: string, label: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid ${label}: ${value}`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`Invalid ${label}: ${value} (expected an http(s) URL)`);
+  }
+  return url.toString().replace(TRAILING_SLASHES_PATTERN, "");
+}
+
+// Flags and config win over IGNORE_HUB_* variables; GHES raw files live under <host>/raw.
+export function resolveGitHubEndpoint(
+  overrides: GitHubEndpointOverrides = {}
+): GitHubEndpoint {
+  const apiUrl = normalizeBaseUrl(
+    pickSetting(overrides.apiUrl, "IGNORE_HUB_API_URL") ??
+      DEFAULT_GITHUB_API_URL,
+    "API URL"
+  );
+  const rawSetting = pickSetting(overrides.rawUrl, "IGNORE_HUB_RAW_URL");
+  let rawUrl = DEFAULT_GITHUB_RAW_URL;
+  if (rawSetting) {
+    rawUrl = normalizeBaseUrl(rawSetting, "raw URL");
+  } else if (GHES_API_PATH_PATTERN.test(apiUrl)) {
+    rawUrl = `${apiUrl.replace(GHES_API_PATH_PATTERN, "")}/raw`;
+  }
+
+  const repo =
+    pickSetting(overrides.repo, "IGNORE_HUB_REPO") ?? DEFAULT_TEMPLATE_REPO;
+  if (!REPO_PATTERN.test(repo)) {
+    throw new Error(
+      `Invalid template repository "${repo}" (expected owner/name)`
+    );
+  }
+  const [owner = "", name = ""] = repo.split("/");
+
+  return { apiUrl, owner, rawUrl, repo: name };
+}
+
+// The origin identifies a mirror in the cache, so indexes from different hosts never mix.
+export function describeGitHubEndpoint(endpoint: GitHubEndpoint): string {
+  return `${endpoint.apiUrl}/repos/${endpoint.owner}/${endpoint.repo}`;
+}
+
+export function isDefaultGitHubEndpoint(endpoint: GitHubEndpoint): boolean {
+  return (
+    endpoint.apiUrl === DEFAULT_GITHUB_API_URL &&
+    endpoint.rawUrl === DEFAULT_GITHUB_RAW_URL &&
+    `${endpoint.owner}/${endpoint.repo}` === DEFAULT_TEMPLATE_REPO
+  );
+}
+
+export function describeGitHubRevision(
+  endpoint: GitHubEndpoint,
+  ref: string
+): string {
+  const description = `${endpoint.owner}/${endpoint.repo} @ ${ref}`;
+  return isDefaultGitHubEndpoint(endpoint)
+    ? description
+    : `${description} (${new URL(endpoint.apiUrl).host})`;
+}
+
+function buildHeaders(
+  url: string,
+  accept: string,
+  validators: HttpValidators | undefined
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: accept,
+    "User-Agent": "ignore-hub",
+  };
+
+  const token = resolveRequestToken(url);
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  if (validators?.etag) {
+    headers["If-None-Match"] = validators.etag;
+  }
+  if (validators?.lastModified) {
+    headers["If-Modified-Since"] = validators.lastModified;
+  }
+
+  return headers;
+}
+
+function readValidators(response: Response): HttpValidators {
+  const etag = response.headers.get("etag");
+  const lastModified = response.headers.get("last-modified");
+  return {
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+  };
+}
+
+function parseHeaderNumber(value: string | null): number | null {
+  if (value === null || value.trim().length === 0) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toRateLimitError(
+  url: string,
+  response: Response
+): GitHubRateLimitError | null {
+  const remaining = parseHeaderNumber(
+    response.headers.get("x-ratelimit-remaining")
+  );
+  const throttled =
+    response.status === 429 || (response.status === 403 && remaining === 0);
+  if (!throttled) {
+    return null;
+  }
+
+  const reset = parseHeaderNumber(response.headers.get("x-ratelimit-reset"));
+  const retryAfter = parseHeaderNumber(response.headers.get("retry-after"));
+  let resetAt: Date | null = null;
+  if (reset !== null) {
+    resetAt = new Date(reset * 1000);
+  } else if (retryAfter !== null) {
+    resetAt = new Date(Date.now() + retryAfter * 1000);
   }
 
-  return (await response.json()) as T;
+  const details = [
+    `${remaining ?? "unknown"} requests remaining`,
+    ...(resetAt ? [`resets at ${resetAt.toLocaleTimeString()}`] : []),
+  ].join(", ");
+  let hint = "";
+  if (!resolveRequestToken(url)) {
+    hint = isGitHubHost(new URL(url))
+      ? " Set GITHUB_TOKEN or GH_TOKEN to raise the limit."
+      : " Set IGNORE_HUB_TOKEN to authenticate with this host.";
+  }
+
+  return new GitHubRateLimitError(
+    `GitHub rate limit exceeded (${details}).${hint}`,
+    remaining,
+    resetAt
+  );
 }
 
-export async function fetchTemplatePaths(): Promise<string[]> {
-  const payload = await fetchJson<GitTreeResponse>(GITHUB_API_TREE_URL);
+async function conditionalFetch(
+  url: string,
+  accept: string,
+  {
+    fetch: fetchImpl = fetch,
+    proxy: proxyOverride = null,
+    signal,
+    validators,
+  }: RequestOptions,
+  failureMessage: (status: number) => string
+): Promise<ConditionalResponse<Response>> {
+  const proxy = resolveProxyUrl(url, proxyOverride);
+  let response: Response;
+  try {
+    response = await fetchImpl(url, {
+      headers: buildHeaders(url, accept, validators),
+      ...(proxy ? { proxy } : {}),
+      signal,
+    });
+  } catch (error) {
+    throw proxy ? toProxyConnectionError(proxy, error) : error;
+  }
+
+  const proxyError = proxy ? toProxyStatusError(proxy, response.status) : null;
+  if (proxyError) {
+    throw proxyError;
+  }
+
+  if (response.status === HTTP_NOT_MODIFIED) {
+    return { notModified: true, validators: validators ?? {} };
+  }
+
+  if (!response.ok) {
+    throw (
+      toRateLimitError(url, response) ??
+      new GitHubRequestError(failureMessage(response.status), response.status)
+    );
+  }
 
-  return payload.tree
-    .filter((entry) => entry.type === "blob")
-    .map((entry) => entry.path)
-    .filter(
-      (path) =>
-        ROOT_TEMPLATE_PATTERN.test(path) || GLOBAL_TEMPLATE_PATTERN.test(path)
-    )
-    .sort((a, b) => a.localeCompare(b, undefined, { sensitivity: "base" }));
+  return {
+    notModified: false,
+    validators: readValidators(response),
+    value: response,
+  };
 }
 
-export async function fetchTemplateSource(path: string): Promise<string> {
-  const encodedPath = path
+function encodePathSegments(path: string): string {
+  return path
     .split("/")
     .map((segment) => encodeURIComponent(segment))
     .join("/");
+}
 
-  const url = `${RAW_BASE_URL}/${encodedPath}`;
-  const response = await fetch(url, {
-    headers: {
-      Accept: "text/plain",
-      "User-Agent": "ignore-hub",
-    },
-  });
+export async function fetchTemplateEntries(
+  ref: string = DEFAULT_TEMPLATE_REF,
+  requestOptions: RequestOptions = {}
+): Promise<ConditionalResponse<TemplateTreeEntry[]>> {
+  const endpoint = requestOptions.endpoint ?? resolveGitHubEndpoint();
+  const url = `${describeGitHubEndpoint(endpoint)}/git/trees/${encodeURIComponent(ref)}?recursive=1`;
+  const result = await conditionalFetch(
+    url,
+    "application/vnd.github+json",
+    requestOptions,
+    (status) => `Request failed (${status}) for ${url}`
+  );
+  if (result.notModified) {
+    return result;
+  }
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch template ${path} (${response.status})`);
+  const payload = (await result.value.json()) as GitTreeResponse;
+  return {
+    notModified: false,
+    validators: result.validators,
+    value: payload.tree
+      .filter((entry) => entry.type === "blob")
+      .map((entry) => ({ path: entry.path, sha: entry.sha }))
+      .filter(({ path }) => isSupportedTemplatePath(path))
+      .sort((a, b) =>
+        a.path.localeCompare(b.path, undefined, { sensitivity: "base" })
+      ),
+  };
+}
+
+// Snapshots are pinned to a commit so the embedded index and bodies always agree.
+export async function fetchCommitSha(
+  ref: string = DEFAULT_TEMPLATE_REF,
+  requestOptions: RequestOptions = {}
+): Promise<string> {
+  const endpoint = requestOptions.endpoint ?? resolveGitHubEndpoint();
+  const url = `${describeGitHubEndpoint(endpoint)}/commits/${encodeURIComponent(ref)}`;
+  const result = await conditionalFetch(
+    url,
+    "application/vnd.github.sha",
+    { ...requestOptions, validators: undefined },
+    (status) => `Failed to resolve ref "${ref}" (${status})`
+  );
+  if (result.notModified) {
+    throw new Error(`Unexpected 304 for ref "${ref}"`);
+  }
+  return (await result.value.text()).trim();
+}
+
+export async function fetchTemplateSource(
+  path: string,
+  ref: string = DEFAULT_TEMPLATE_REF,
+  requestOptions: RequestOptions = {}
+): Promise<ConditionalResponse<string>> {
+  const endpoint = requestOptions.endpoint ?? resolveGitHubEndpoint();
+  const url = `${endpoint.rawUrl}/${endpoint.owner}/${endpoint.repo}/${encodePathSegments(ref)}/${encodePathSegments(path)}`;
+  const result = await conditionalFetch(
+    url,
+    "text/plain",
+    requestOptions,
+    (status) => `Failed to fetch template ${path} (${status})`
+  );
+  if (result.notModified) {
+    return result;
   }
 
-  return response.text();
+  return {
+    notModified: false,
+    validators: result.validators,
+    value: await result.value.text(),
+  };
 }
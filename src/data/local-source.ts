@@ -0,0 +1,69 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { isSupportedTemplatePath } from "../domain/classification";
+import { computeBlobSha } from "../domain/content-hash";
+import type { TemplateTreeEntry } from "../domain/types";
+
+export const LOCAL_SOURCE_REF = "local";
+
+function isSkippableDir(name: string): boolean {
+  return name.startsWith(".") || name === "node_modules";
+}
+
+async function collectRelativeFilePaths(
+  root: string,
+  prefix = ""
+): Promise<string[]> {
+  const entries = await readdir(join(root, prefix), { withFileTypes: true });
+  const paths: string[] = [];
+
+  for (const entry of entries) {
+    const relativePath =
+      prefix.length > 0 ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!isSkippableDir(entry.name)) {
+        paths.push(...(await collectRelativeFilePaths(root, relativePath)));
+      }
+      continue;
+    }
+    if (entry.isFile()) {
+      paths.push(relativePath);
+    }
+  }
+
+  return paths;
+}
+
+export async function readLocalTemplateEntries(
+  sourceDir: string
+): Promise<TemplateTreeEntry[]> {
+  const rootStat = await stat(sourceDir).catch(() => null);
+  if (!rootStat?.isDirectory()) {
+    throw new Error(`Template source directory not found: ${sourceDir}`);
+  }
+
+  const paths = (await collectRelativeFilePaths(sourceDir))
+    .filter((path) => isSupportedTemplatePath(path))
+    .sort((a, b) => a.localeCompare(b, undefined, { sensitivity: "base" }));
+
+  const entries: TemplateTreeEntry[] = [];
+  for (const path of paths) {
+    const source = await readFile(join(sourceDir, path), "utf8");
+    entries.push({ path, sha: computeBlobSha(source) });
+  }
+  return entries;
+}
+
+export async function readLocalTemplateSource(
+  sourceDir: string,
+  path: string
+): Promise<string> {
+  try {
+    return await readFile(join(sourceDir, ...path.split("/")), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Template ${path} not found in ${sourceDir}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,146 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { computeBlobSha, computeContentHash } from "../domain/content-hash";
+import { isDedupeMode } from "../domain/gitignore-pattern";
+import type {
+  DedupeMode,
+  LockedTemplate,
+  TemplateLockfile,
+  TemplateRegistry,
+  TemplateWithSource,
+} from "../domain/types";
+import { isTemplateMeta } from "./cache-schema";
+import { type RegistryOptions, resolveTemplateRegistries } from "./registries";
+
+export const LOCKFILE_NAME = "ignore-hub.lock";
+
+interface BuildTemplateLockfileInput {
+  dedupe: DedupeMode;
+  includeWatermark: boolean;
+  output: string;
+  sourceRef: string;
+  templates: TemplateWithSource[];
+  useSimpleSectionSeparator: boolean;
+}
+
+function isLockedTemplate(value: unknown): value is LockedTemplate {
+  if (!isTemplateMeta(value)) {
+    return false;
+  }
+
+  const candidate = value as Partial<LockedTemplate>;
+  return (
+    typeof candidate.sha === "string" &&
+    typeof candidate.contentHash === "string"
+  );
+}
+
+function isTemplateLockfile(value: unknown): value is TemplateLockfile {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const candidate = value as Partial<TemplateLockfile>;
+  return (
+    candidate.lockfileVersion === 1 &&
+    typeof candidate.outputHash === "string" &&
+    typeof candidate.sourceRef === "string" &&
+    typeof candidate.options?.includeWatermark === "boolean" &&
+    typeof candidate.options.useSimpleSectionSeparator === "boolean" &&
+    (candidate.options.dedupe === undefined ||
+      isDedupeMode(candidate.options.dedupe)) &&
+    Array.isArray(candidate.templates) &&
+    candidate.templates.every((template) => isLockedTemplate(template))
+  );
+}
+
+export function resolveLockfilePath(outputPath: string): string {
+  return join(dirname(outputPath), LOCKFILE_NAME);
+}
+
+export function buildTemplateLockfile({
+  dedupe,
+  includeWatermark,
+  output,
+  sourceRef,
+  templates,
+  useSimpleSectionSeparator,
+}: BuildTemplateLockfileInput): TemplateLockfile {
+  return {
+    lockfileVersion: 1,
+    sourceRef,
+    options: {
+      dedupe,
+      includeWatermark,
+      useSimpleSectionSeparator,
+    },
+    templates: templates.map(({ meta, source }) => ({
+      id: meta.id,
+      kind: meta.kind,
+      name: meta.name,
+      path: meta.path,
+      ...(meta.source ? { source: meta.source } : {}),
+      sha: computeBlobSha(source),
+      contentHash: computeContentHash(source),
+    })),
+    outputHash: computeContentHash(output),
+  };
+}
+
+export async function readTemplateLockfile(
+  path: string
+): Promise<TemplateLockfile | null> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(raw) as unknown;
+  if (!isTemplateLockfile(parsed)) {
+    throw new Error(`Unsupported or malformed lockfile at ${path}`);
+  }
+  return parsed;
+}
+
+export async function writeTemplateLockfile(
+  path: string,
+  lockfile: TemplateLockfile
+): Promise<void> {
+  await writeFile(path, `${JSON.stringify(lockfile, null, 2)}\n`, "utf8");
+}
+
+// Returns the drift message for a locked template, or null when the body matches.
+export function describeLockedTemplateDrift(
+  template: LockedTemplate,
+  source: string
+): string | null {
+  const sha = computeBlobSha(source);
+  if (sha !== template.sha) {
+    return `${template.id}: expected blob ${template.sha}, got ${sha}`;
+  }
+  if (computeContentHash(source) !== template.contentHash) {
+    return `${template.id}: content hash mismatch`;
+  }
+  return null;
+}
+
+// Single-source lockfiles pin the GitHub ref they were generated from.
+export function resolveLockedRegistries(
+  options: RegistryOptions,
+  lockfile: TemplateLockfile
+): TemplateRegistry[] {
+  const registries = resolveTemplateRegistries(options);
+  if (lockfile.templates.some((template) => template.source !== undefined)) {
+    return registries;
+  }
+  return registries.map((registry) =>
+    registry.kind === "github"
+      ? { ...registry, ref: lockfile.sourceRef }
+      : registry
+  );
+}
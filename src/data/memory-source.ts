@@ -0,0 +1,61 @@
+import { createHash } from "node:crypto";
+import { isSupportedTemplatePath } from "../domain/classification";
+import { computeBlobSha } from "../domain/content-hash";
+import type {
+  ConditionalResponse,
+  TemplateSource,
+  TemplateTreeEntry,
+} from "../domain/types";
+
+export const MEMORY_SOURCE_ORIGIN = "memory://templates";
+
+export interface MemoryTemplateSourceOptions {
+  origin?: string;
+  // Template bodies keyed by repository path; read on every call, so tests can change them between runs.
+  templates: Record<string, string>;
+}
+
+function quoteEtag(value: string): string {
+  return `"${value}"`;
+}
+
+// Behaves like GitHub for the cache: same path filtering, blob SHAs and ETag revalidation.
+export function createMemoryTemplateSource({
+  origin = MEMORY_SOURCE_ORIGIN,
+  templates,
+}: MemoryTemplateSourceOptions): TemplateSource {
+  return {
+    describeRevision: (ref) => `${origin} @ ${ref}`,
+    fetchTemplate: (path, _ref, request = {}) => {
+      const body = templates[path];
+      if (body === undefined) {
+        return Promise.reject(
+          new Error(`Template ${path} not found in ${origin}`)
+        );
+      }
+      const etag = quoteEtag(computeBlobSha(body));
+      const response: ConditionalResponse<string> =
+        request.validators?.etag === etag
+          ? { notModified: true, validators: { etag } }
+          : { notModified: false, validators: { etag }, value: body };
+      return Promise.resolve(response);
+    },
+    listTemplates: (_ref, request = {}) => {
+      const entries: TemplateTreeEntry[] = Object.entries(templates)
+        .filter(([path]) => isSupportedTemplatePath(path))
+        .map(([path, body]) => ({ path, sha: computeBlobSha(body) }))
+        .sort((a, b) =>
+          a.path.localeCompare(b.path, undefined, { sensitivity: "base" })
+        );
+      const etag = quoteEtag(
+        createHash("sha1").update(JSON.stringify(entries)).digest("hex")
+      );
+      const response: ConditionalResponse<TemplateTreeEntry[]> =
+        request.validators?.etag === etag
+          ? { notModified: true, validators: { etag } }
+          : { notModified: false, validators: { etag }, value: entries };
+      return Promise.resolve(response);
+    },
+    origin,
+  };
+}
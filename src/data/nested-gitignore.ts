@@ -0,0 +1,46 @@
+import { readFile } from "node:fs/promises";
+import { join, relative } from "node:path";
+import {
+  type GitignoreRule,
+  parseGitignoreRules,
+} from "../domain/gitignore-matcher";
+
+async function readGitignoreFile(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Rules of the .gitignore files in the directories between the root and `path`, outermost
+// first. `loaded` caches them across calls; files are reported relative to the working directory.
+export async function loadNestedGitignoreRules(
+  root: string,
+  path: string,
+  loaded: Map<string, GitignoreRule[]>
+): Promise<GitignoreRule[]> {
+  const segments = path.split("/");
+  const rules: GitignoreRule[] = [];
+  for (let depth = 1; depth < segments.length; depth += 1) {
+    const baseDir = segments.slice(0, depth).join("/");
+    let nested = loaded.get(baseDir);
+    if (!nested) {
+      const file = join(root, baseDir, ".gitignore");
+      const content = await readGitignoreFile(file);
+      nested =
+        content === null
+          ? []
+          : parseGitignoreRules(content, {
+              baseDir,
+              file: relative(process.cwd(), file) || file,
+            });
+      loaded.set(baseDir, nested);
+    }
+    rules.push(...nested);
+  }
+  return rules;
+}
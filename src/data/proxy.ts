@@ -0,0 +1,166 @@
+export class ProxyError extends Error {
+  readonly proxyUrl: string;
+  readonly status: number | null;
+
+  constructor(
+    message: string,
+    proxyUrl: string,
+    status: number | null,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "ProxyError";
+    this.proxyUrl = proxyUrl;
+    this.status = status;
+  }
+}
+
+const HTTP_PROXY_AUTH_REQUIRED = 407;
+const NO_PROXY_SEPARATOR_PATTERN = /[\s,]+/;
+const WILDCARD_DOMAIN_PREFIX_PATTERN = /^\*?\./;
+const TUNNEL_STATUS_PATTERN = /\b([1-5]\d\d)\b/;
+const PROXY_TUNNEL_ERROR_CODE = "ERR_PROXY_TUNNEL";
+
+function readEnv(...names: string[]): string | null {
+  for (const name of names) {
+    const value = process.env[name];
+    if (value && value.length > 0) {
+      return value;
+    }
+  }
+  return null;
+}
+
+export function parseProxyUrl(value: string, label = "proxy URL"): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid ${label}: ${redactProxyUrl(value)}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(
+      `Invalid ${label}: ${redactProxyUrl(value)} (expected an http(s) URL)`
+    );
+  }
+  return url.toString();
+}
+
+// Proxy URLs may carry credentials, which must never end up in messages or logs.
+export function redactProxyUrl(proxyUrl: string): string {
+  try {
+    const url = new URL(proxyUrl);
+    if (url.username || url.password) {
+      url.username = "***";
+      url.password = "";
+    }
+    return url.toString();
+  } catch {
+    return "<invalid proxy URL>";
+  }
+}
+
+function matchesNoProxyEntry(url: URL, entry: string): boolean {
+  if (entry === "*") {
+    return true;
+  }
+
+  const [host = "", port] = entry.split(":");
+  const defaultPort = url.protocol === "https:" ? "443" : "80";
+  if (port && port !== (url.port || defaultPort)) {
+    return false;
+  }
+
+  // "example.com", ".example.com" and "*.example.com" all cover subdomains.
+  const domain = host.replace(WILDCARD_DOMAIN_PREFIX_PATTERN, "");
+  return url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+}
+
+export function isProxyBypassed(targetUrl: string): boolean {
+  const noProxy = readEnv("NO_PROXY", "no_proxy");
+  if (!noProxy) {
+    return false;
+  }
+
+  const url = new URL(targetUrl);
+  return noProxy
+    .toLowerCase()
+    .split(NO_PROXY_SEPARATOR_PATTERN)
+    .filter((entry) => entry.length > 0)
+    .some((entry) => matchesNoProxyEntry(url, entry));
+}
+
+// --proxy wins over HTTPS_PROXY/HTTP_PROXY; NO_PROXY applies to both.
+export function resolveProxyUrl(
+  targetUrl: string,
+  override: string | null = null
+): string | null {
+  if (isProxyBypassed(targetUrl)) {
+    return null;
+  }
+  if (override) {
+    return parseProxyUrl(override);
+  }
+
+  const isHttps = targetUrl.startsWith("https:");
+  const fromEnv = isHttps
+    ? readEnv("HTTPS_PROXY", "https_proxy", "HTTP_PROXY", "http_proxy")
+    : readEnv("HTTP_PROXY", "http_proxy");
+  return fromEnv ? parseProxyUrl(fromEnv, "proxy URL in environment") : null;
+}
+
+function describeProxyStatus(proxyUrl: string, status: number): string {
+  const redacted = redactProxyUrl(proxyUrl);
+  if (status === HTTP_PROXY_AUTH_REQUIRED) {
+    return `Proxy ${redacted} rejected the credentials (407). Check the user and password in --proxy or HTTPS_PROXY.`;
+  }
+  return `Proxy ${redacted} refused the connection (${status}).`;
+}
+
+export function toProxyStatusError(
+  proxyUrl: string,
+  status: number
+): ProxyError | null {
+  if (status !== HTTP_PROXY_AUTH_REQUIRED) {
+    return null;
+  }
+  return new ProxyError(
+    describeProxyStatus(proxyUrl, status),
+    redactProxyUrl(proxyUrl),
+    status
+  );
+}
+
+// Timeouts stay timeouts; anything else that fails while proxied is blamed on the proxy.
+export function toProxyConnectionError(
+  proxyUrl: string,
+  error: unknown
+): unknown {
+  if (
+    !(error instanceof Error) ||
+    error.name === "TimeoutError" ||
+    error.name === "AbortError"
+  ) {
+    return error;
+  }
+
+  const code = (error as NodeJS.ErrnoException).code;
+  if (code === PROXY_TUNNEL_ERROR_CODE) {
+    const status = Number(TUNNEL_STATUS_PATTERN.exec(error.message)?.[1]);
+    if (Number.isFinite(status)) {
+      return new ProxyError(
+        describeProxyStatus(proxyUrl, status),
+        redactProxyUrl(proxyUrl),
+        status,
+        { cause: error }
+      );
+    }
+  }
+
+  return new ProxyError(
+    `Could not connect through proxy ${redactProxyUrl(proxyUrl)}: ${error.message}`,
+    redactProxyUrl(proxyUrl),
+    null,
+    { cause: error }
+  );
+}
@@ -0,0 +1,104 @@
+import type {
+  CliOptions,
+  GitHubEndpoint,
+  GitHubTemplateRegistry,
+  TemplateRegistry,
+  TemplateSourceResolver,
+} from "../domain/types";
+import {
+  DEFAULT_TEMPLATE_REF,
+  describeGitHubRevision,
+  resolveGitHubEndpoint,
+} from "./github-client";
+
+export const DEFAULT_GITHUB_REGISTRY_NAME = "github";
+export const LOCAL_REGISTRY_NAME = "local";
+
+export type RegistryOptions = Pick<
+  CliOptions,
+  "ref" | "registries" | "sourceDir"
+> &
+  Partial<Pick<CliOptions, "apiUrl" | "rawUrl" | "repo">>;
+
+// --source-dir joins the configured registries as "local"; without any it replaces the
+// GitHub default.
+export function resolveTemplateRegistries(
+  options: RegistryOptions
+): TemplateRegistry[] {
+  const endpointDefaults = {
+    ...(options.apiUrl ? { apiUrl: options.apiUrl } : {}),
+    ...(options.rawUrl ? { rawUrl: options.rawUrl } : {}),
+    ...(options.repo ? { repo: options.repo } : {}),
+  };
+  const registries: TemplateRegistry[] = options.registries.map((registry) =>
+    registry.kind === "github"
+      ? { ...endpointDefaults, ...registry, ref: registry.ref ?? options.ref }
+      : registry
+  );
+
+  if (options.sourceDir) {
+    registries.push({
+      kind: "directory",
+      name: LOCAL_REGISTRY_NAME,
+      path: options.sourceDir,
+      priority: 0,
+    });
+  }
+
+  if (registries.length === 0) {
+    registries.push({
+      ...endpointDefaults,
+      kind: "github",
+      name: DEFAULT_GITHUB_REGISTRY_NAME,
+      priority: 0,
+      ref: options.ref,
+    });
+  }
+
+  return registries;
+}
+
+export function resolveRegistryEndpoint(
+  registry: GitHubTemplateRegistry
+): GitHubEndpoint {
+  return resolveGitHubEndpoint({
+    apiUrl: registry.apiUrl,
+    rawUrl: registry.rawUrl,
+    repo: registry.repo,
+  });
+}
+
+export function describeTemplateRegistry(
+  registry: TemplateRegistry,
+  templateSources?: TemplateSourceResolver
+): string {
+  if (registry.kind === "directory") {
+    return `${registry.path} (local directory)`;
+  }
+  const ref = registry.ref ?? DEFAULT_TEMPLATE_REF;
+  return templateSources
+    ? templateSources(registry).describeRevision(ref)
+    : describeGitHubRevision(resolveRegistryEndpoint(registry), ref);
+}
+
+export function buildSourcePriority(
+  registries: TemplateRegistry[]
+): Record<string, number> {
+  return Object.fromEntries(
+    registries.map((registry) => [registry.name, registry.priority])
+  );
+}
+
+export function findTemplateRegistry(
+  source: string | undefined,
+  registries: TemplateRegistry[]
+): TemplateRegistry {
+  const registry =
+    source === undefined
+      ? registries[0]
+      : registries.find((candidate) => candidate.name === source);
+  if (!registry) {
+    throw new Error(`Unknown template source "${source ?? ""}"`);
+  }
+  return registry;
+}
@@ -0,0 +1,67 @@
+import type {
+  CacheIndex,
+  TemplateMeta,
+  TemplateWithSource,
+} from "../domain/types";
+
+export interface TemplateSnapshot {
+  // Template bodies keyed by blob SHA, like the on-disk body cache.
+  bodies: Record<string, string>;
+  commit: string;
+  index: CacheIndex;
+}
+
+// Replaced with the snapshot JSON by scripts/build-binary.ts --snapshot.
+declare const __IGNORE_HUB_SNAPSHOT__: TemplateSnapshot | undefined;
+
+const SHORT_COMMIT_LENGTH = 7;
+
+export function getEmbeddedSnapshot(): TemplateSnapshot | null {
+  return typeof __IGNORE_HUB_SNAPSHOT__ === "undefined"
+    ? null
+    : __IGNORE_HUB_SNAPSHOT__;
+}
+
+export function buildTemplateSnapshot(
+  index: CacheIndex,
+  commit: string,
+  fetched: TemplateWithSource[]
+): TemplateSnapshot {
+  const bodies: Record<string, string> = {};
+  for (const { meta, source } of fetched) {
+    if (meta.sha) {
+      bodies[meta.sha] = source;
+    }
+  }
+  return { bodies, commit, index };
+}
+
+export function describeTemplateSnapshot(snapshot: TemplateSnapshot): string {
+  return `commit ${snapshot.commit.slice(0, SHORT_COMMIT_LENGTH)}, ${snapshot.index.fetchedAt.slice(0, 10)}`;
+}
+
+// A snapshot only stands in for the exact ref and origin it was built from.
+export function findSnapshotIndex(
+  snapshot: TemplateSnapshot | null,
+  ref: string,
+  origin: string
+): CacheIndex | null {
+  if (
+    !snapshot ||
+    snapshot.index.sourceRef !== ref ||
+    snapshot.index.origin !== origin
+  ) {
+    return null;
+  }
+  return snapshot.index;
+}
+
+export function readSnapshotSource(
+  snapshot: TemplateSnapshot | null,
+  template: TemplateMeta
+): string | null {
+  if (!(snapshot && template.sha)) {
+    return null;
+  }
+  return snapshot.bodies[template.sha] ?? null;
+}
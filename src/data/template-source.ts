@@ -0,0 +1,39 @@
+import type {
+  GitHubEndpoint,
+  TemplateSource,
+  TemplateSourceResolver,
+} from "../domain/types";
+import {
+  describeGitHubEndpoint,
+  describeGitHubRevision,
+  fetchTemplateEntries,
+  fetchTemplateSource,
+} from "./github-client";
+import { resolveRegistryEndpoint } from "./registries";
+
+export interface GitHubTemplateSourceOptions {
+  // Replaces the global fetch, e.g. to serve fixtures in tests.
+  fetch?: typeof fetch;
+  proxy?: string | null;
+}
+
+export function createGitHubTemplateSource(
+  endpoint: GitHubEndpoint,
+  { fetch, proxy = null }: GitHubTemplateSourceOptions = {}
+): TemplateSource {
+  return {
+    describeRevision: (ref) => describeGitHubRevision(endpoint, ref),
+    fetchTemplate: (path, ref, request = {}) =>
+      fetchTemplateSource(path, ref, { ...request, endpoint, fetch, proxy }),
+    listTemplates: (ref, request = {}) =>
+      fetchTemplateEntries(ref, { ...request, endpoint, fetch, proxy }),
+    origin: describeGitHubEndpoint(endpoint),
+  };
+}
+
+export function createGitHubTemplateSources(
+  options: GitHubTemplateSourceOptions = {}
+): TemplateSourceResolver {
+  return (registry) =>
+    createGitHubTemplateSource(resolveRegistryEndpoint(registry), options);
+}
@@ -1,7 +1,13 @@
-import type { CacheIndex, TemplateKind, TemplateMeta } from "./types";
+import type {
+  CacheIndex,
+  TemplateKind,
+  TemplateMeta,
+  TemplateTreeEntry,
+} from "./types";
 
 const ROOT_TEMPLATE_PATTERN = /^[^/]+\.gitignore$/;
 const GLOBAL_TEMPLATE_PATTERN = /^Global\/.+\.gitignore$/;
+const COMMUNITY_TEMPLATE_PATTERN = /^community\/.+\.gitignore$/;
 const GITIGNORE_FILE_SUFFIX = /\.gitignore$/;
 
 const LANGUAGE_TEMPLATE_NAMES = new Set(
@@ -137,7 +143,11 @@ export function normalizeTemplateName(name: string): string {
 }
 
 export function isSupportedTemplatePath(path: string): boolean {
-  return ROOT_TEMPLATE_PATTERN.test(path) || GLOBAL_TEMPLATE_PATTERN.test(path);
+  return (
+    ROOT_TEMPLATE_PATTERN.test(path) ||
+    GLOBAL_TEMPLATE_PATTERN.test(path) ||
+    COMMUNITY_TEMPLATE_PATTERN.test(path)
+  );
 }
 
 export function getTemplateNameFromPath(path: string): string {
@@ -145,9 +155,20 @@ export function getTemplateNameFromPath(path: string): string {
   if (cleanedPath.startsWith("Global/")) {
     return cleanedPath.slice("Global/".length);
   }
+  if (cleanedPath.startsWith("community/")) {
+    return cleanedPath.slice(cleanedPath.lastIndexOf("/") + 1);
+  }
   return cleanedPath;
 }
 
+export function getCommunityCategoryFromPath(path: string): string | null {
+  if (!COMMUNITY_TEMPLATE_PATTERN.test(path)) {
+    return null;
+  }
+  const folders = path.split("/").slice(1, -1);
+  return folders.length > 0 ? folders.join("/") : null;
+}
+
 export function getTemplateIdFromPath(path: string): string {
   const cleanedPath = path.replace(GITIGNORE_FILE_SUFFIX, "");
   if (cleanedPath.startsWith("Global/")) {
@@ -191,6 +212,17 @@ export function classifyTemplatePath(path: string): TemplateMeta | null {
     };
   }
 
+  if (path.startsWith("community/")) {
+    const category = getCommunityCategoryFromPath(path);
+    return {
+      id,
+      name,
+      path,
+      kind: "community",
+      ...(category ? { category } : {}),
+    };
+  }
+
   return {
     id,
     name,
@@ -208,16 +240,64 @@ export function sortTemplates(templates: TemplateMeta[]): TemplateMeta[] {
   });
 }
 
-export function buildCacheIndex(paths: string[]): CacheIndex {
+export function buildCacheIndex(
+  entries: TemplateTreeEntry[],
+  sourceRef: string
+): CacheIndex {
   const templates = sortTemplates(
-    paths
-      .map((path) => classifyTemplatePath(path))
+    entries
+      .map((entry): TemplateMeta | null => {
+        const template = classifyTemplatePath(entry.path);
+        return template ? { ...template, sha: entry.sha } : null;
+      })
       .filter((template): template is TemplateMeta => template !== null)
   );
 
   return {
     fetchedAt: new Date().toISOString(),
-    sourceRef: "main",
+    sourceRef,
+    templates,
+  };
+}
+
+export function getUnqualifiedTemplateId(template: TemplateMeta): string {
+  const prefix = template.source ? `${template.source}:` : "";
+  return prefix.length > 0 && template.id.startsWith(prefix)
+    ? template.id.slice(prefix.length)
+    : template.id;
+}
+
+interface RegistryCacheIndex {
+  index: CacheIndex;
+  source: string;
+}
+
+// A single registry keeps plain ids; several are namespaced as `<source>:<id>`.
+export function mergeCacheIndexes(parts: RegistryCacheIndex[]): CacheIndex {
+  const [first] = parts;
+  if (parts.length === 1 && first) {
+    return first.index;
+  }
+
+  const templates = sortTemplates(
+    parts.flatMap(({ index, source }) =>
+      index.templates.map((template) => ({
+        ...template,
+        id: `${source}:${template.id}`,
+        source,
+      }))
+    )
+  );
+  const fetchedAt = parts
+    .map(({ index }) => index.fetchedAt)
+    .sort()
+    .at(0);
+
+  return {
+    fetchedAt: fetchedAt ?? new Date().toISOString(),
+    sourceRef: parts
+      .map(({ index, source }) => `${source}@${index.sourceRef}`)
+      .join(","),
     templates,
   };
 }
@@ -0,0 +1,14 @@
+import { createHash } from "node:crypto";
+
+// Same digest GitHub reports as the tree entry `sha`, so bodies are content-addressed.
+export function computeBlobSha(source: string): string {
+  const body = Buffer.from(source, "utf8");
+  return createHash("sha1")
+    .update(`blob ${body.byteLength}\0`)
+    .update(body)
+    .digest("hex");
+}
+
+export function computeContentHash(content: string): string {
+  return `sha256-${createHash("sha256").update(content, "utf8").digest("hex")}`;
+}
@@ -0,0 +1,49 @@
+const DURATION_PATTERN = /^(\d+)(s|m|h|d|w)$/;
+const NEVER_VALUES = new Set(["never", "off"]);
+
+const UNIT_MS = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+type DurationUnit = keyof typeof UNIT_MS;
+
+export const DEFAULT_CACHE_MAX_AGE = "7d";
+
+// Returns null for "never" so callers can treat the cache as fresh forever.
+export function parseMaxAge(value: string): number | null {
+  const normalized = value.trim().toLowerCase();
+  if (NEVER_VALUES.has(normalized)) {
+    return null;
+  }
+  if (normalized === "0") {
+    return 0;
+  }
+
+  const match = DURATION_PATTERN.exec(normalized);
+  const amount = match?.[1];
+  const unit = match?.[2] as DurationUnit | undefined;
+  if (!(amount && unit)) {
+    throw new Error(
+      `Invalid max age "${value}" (expected e.g. 30m, 12h, 7d, 2w or never)`
+    );
+  }
+  return Number(amount) * UNIT_MS[unit];
+}
+
+export function formatDuration(ms: number): string {
+  const units: DurationUnit[] = ["w", "d", "h", "m"];
+  for (const unit of units) {
+    if (ms >= UNIT_MS[unit]) {
+      return `${Math.floor(ms / UNIT_MS[unit])}${unit}`;
+    }
+  }
+  return "<1m";
+}
+
+export function resolveCacheMaxAgeMs(value: string | null): number | null {
+  return parseMaxAge(value ?? DEFAULT_CACHE_MAX_AGE);
+}
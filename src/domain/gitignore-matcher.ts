@@ -0,0 +1,270 @@
+import {
+  canonicalizeGitignorePattern,
+  type GitignorePattern,
+  GLOBSTAR,
+  parseGitignorePattern,
+  trimRuleLine,
+} from "./gitignore-pattern";
+import {
+  GENERATED_BLOCK_END,
+  GENERATED_BLOCK_START,
+  parseSectionHeader,
+} from "./merge-gitignore";
+
+export interface GitignoreRule {
+  // Directory of the .gitignore relative to the project root, "" for the root itself.
+  baseDir: string;
+  file: string;
+  lineNumber: number;
+  pattern: GitignorePattern;
+  regex: RegExp;
+  rule: string;
+  // Template id of the generated section, null outside the generated block.
+  section: string | null;
+}
+
+export interface GitignoreMatch {
+  ignored: boolean;
+  // The excluded ancestor directory when the path is ignored because of it.
+  parent: string | null;
+  rule: GitignoreRule;
+}
+
+interface ParseGitignoreRulesOptions {
+  baseDir?: string;
+  file?: string;
+}
+
+const LINE_BREAK_PATTERN = /\r?\n/;
+const REGEXP_SPECIAL_PATTERN = /[.*+?^${}()|[\]\\/]/g;
+const CLASS_SPECIAL_PATTERN = /[\\\]^[-]/g;
+
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: "a-zA-Z0-9",
+  alpha: "a-zA-Z",
+  blank: " \\t",
+  cntrl: "\\x00-\\x1f\\x7f",
+  digit: "0-9",
+  graph: "\\x21-\\x7e",
+  lower: "a-z",
+  print: "\\x20-\\x7e",
+  punct: "!-\\/:-@\\[-`{-~",
+  space: " \\t\\n\\r\\f\\v",
+  upper: "A-Z",
+  xdigit: "0-9a-fA-F",
+};
+
+function escapeRegExpChar(char: string): string {
+  return char.replace(REGEXP_SPECIAL_PATTERN, "\\$&");
+}
+
+function escapeClassChar(char: string): string {
+  return char.replace(CLASS_SPECIAL_PATTERN, "\\$&");
+}
+
+function compileBracketItem(
+  segment: string,
+  index: number,
+  isFirst: boolean
+): { next: number; source: string } | null {
+  const char = segment[index] ?? "";
+  if (char === "[" && segment[index + 1] === ":") {
+    const close = segment.indexOf(":]", index + 2);
+    const posixClass =
+      close === -1 ? undefined : POSIX_CLASSES[segment.slice(index + 2, close)];
+    return posixClass === undefined
+      ? null
+      : { next: close + 2, source: posixClass };
+  }
+  if (char === "\\" && index + 1 < segment.length) {
+    return {
+      next: index + 2,
+      source: escapeClassChar(segment[index + 1] ?? ""),
+    };
+  }
+  const isRange =
+    char === "-" &&
+    !isFirst &&
+    index + 1 < segment.length &&
+    segment[index + 1] !== "]";
+  return { next: index + 1, source: isRange ? "-" : escapeClassChar(char) };
+}
+
+// A "]" right after "[" or "[!" is literal. Null when the bracket is never closed
+// or names an unknown class, which makes git ignore the whole pattern.
+function compileBracket(
+  segment: string,
+  start: number
+): { end: number; source: string } | null {
+  let index = start + 1;
+  const negated = segment[index] === "!" || segment[index] === "^";
+  if (negated) {
+    index += 1;
+  }
+
+  let body = "";
+  const bodyStart = index;
+  while (index < segment.length) {
+    if (segment[index] === "]" && index > bodyStart) {
+      return { end: index, source: `[${negated ? "^/" : ""}${body}]` };
+    }
+    const item = compileBracketItem(segment, index, index === bodyStart);
+    if (!item) {
+      return null;
+    }
+    body += item.source;
+    index = item.next;
+  }
+  return null;
+}
+
+function compileSegment(segment: string): string | null {
+  let source = "";
+  for (let index = 0; index < segment.length; index += 1) {
+    const char = segment[index] ?? "";
+    if (char === "\\") {
+      index += 1;
+      if (index >= segment.length) {
+        return null;
+      }
+      source += escapeRegExpChar(segment[index] ?? "");
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const bracket = compileBracket(segment, index);
+      if (!bracket) {
+        return null;
+      }
+      source += bracket.source;
+      index = bracket.end;
+    } else {
+      source += escapeRegExpChar(char);
+    }
+  }
+  return source;
+}
+
+// "**/" matches any leading directories, "/**/" zero or more in between, "/**" everything inside.
+function compilePattern(pattern: GitignorePattern): RegExp | null {
+  const segments = pattern.body.split("/");
+  let source = "";
+  let needsSeparator = false;
+  for (const [index, segment] of segments.entries()) {
+    if (segment === GLOBSTAR) {
+      if (segments.length === 1) {
+        source += ".*";
+      } else if (index === 0) {
+        source += "(?:.*/)?";
+      } else if (index === segments.length - 1) {
+        source += "/.*";
+      } else {
+        source += "/(?:.*/)?";
+      }
+      needsSeparator = false;
+      continue;
+    }
+
+    const compiled = compileSegment(segment);
+    if (compiled === null) {
+      return null;
+    }
+    source += `${needsSeparator ? "/" : ""}${compiled}`;
+    needsSeparator = true;
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Rules of one .gitignore in file order. Invalid patterns are skipped, as git does.
+export function parseGitignoreRules(
+  content: string,
+  { baseDir = "", file = ".gitignore" }: ParseGitignoreRulesOptions = {}
+): GitignoreRule[] {
+  const rules: GitignoreRule[] = [];
+  let insideBlock = false;
+  let section: string | null = null;
+
+  for (const [index, line] of content.split(LINE_BREAK_PATTERN).entries()) {
+    if (line === GENERATED_BLOCK_START || line === GENERATED_BLOCK_END) {
+      insideBlock = line === GENERATED_BLOCK_START;
+      section = null;
+      continue;
+    }
+    const header = insideBlock ? parseSectionHeader(line) : null;
+    if (header) {
+      section = header.id ?? header.name;
+      continue;
+    }
+
+    const parsed = parseGitignorePattern(line);
+    const pattern = parsed ? canonicalizeGitignorePattern(parsed) : null;
+    const regex = pattern ? compilePattern(pattern) : null;
+    if (pattern && regex) {
+      rules.push({
+        baseDir,
+        file,
+        lineNumber: index + 1,
+        pattern,
+        regex,
+        rule: trimRuleLine(line),
+        section,
+      });
+    }
+  }
+  return rules;
+}
+
+function matchesRule(
+  rule: GitignoreRule,
+  path: string,
+  isDirectory: boolean
+): boolean {
+  if (rule.pattern.directoryOnly && !isDirectory) {
+    return false;
+  }
+  if (rule.baseDir && !path.startsWith(`${rule.baseDir}/`)) {
+    return false;
+  }
+
+  const relative = rule.baseDir ? path.slice(rule.baseDir.length + 1) : path;
+  const target = rule.pattern.anchored
+    ? relative
+    : relative.slice(relative.lastIndexOf("/") + 1);
+  return rule.regex.test(target);
+}
+
+function findDecidingRule(
+  rules: GitignoreRule[],
+  path: string,
+  isDirectory: boolean
+): GitignoreRule | null {
+  for (let index = rules.length - 1; index >= 0; index -= 1) {
+    const rule = rules[index] as GitignoreRule;
+    if (matchesRule(rule, path, isDirectory)) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+// `rules` go from the root .gitignore down to the deepest one, so the last match wins
+// like in git. Files inside an excluded directory cannot be re-included. Null when no
+// rule matches.
+export function matchGitignorePath(
+  rules: GitignoreRule[],
+  path: string,
+  isDirectory: boolean
+): GitignoreMatch | null {
+  const segments = path.split("/");
+  for (let depth = 1; depth < segments.length; depth += 1) {
+    const parent = segments.slice(0, depth).join("/");
+    const rule = findDecidingRule(rules, parent, true);
+    if (rule && !rule.pattern.negated) {
+      return { ignored: true, parent, rule };
+    }
+  }
+
+  const rule = findDecidingRule(rules, path, isDirectory);
+  return rule ? { ignored: !rule.pattern.negated, parent: null, rule } : null;
+}
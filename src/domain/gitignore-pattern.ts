@@ -0,0 +1,147 @@
+import type { DedupeMode } from "./types";
+
+export interface GitignorePattern {
+  // Relative to the .gitignore directory, without "!", the leading "/" or the trailing "/".
+  anchored: boolean;
+  body: string;
+  directoryOnly: boolean;
+  negated: boolean;
+}
+
+const DEDUPE_MODES: readonly DedupeMode[] = ["exact", "semantic", "off"];
+export const DEFAULT_DEDUPE_MODE: DedupeMode = "semantic";
+
+// Escapes that still mean something once a pattern is split into segments.
+const SIGNIFICANT_ESCAPES = new Set(["*", "?", "[", "]", "\\"]);
+export const GLOBSTAR = "**";
+const STARS_ONLY_PATTERN = /^\*{2,}$/;
+const NEEDS_LEADING_ESCAPE_PATTERN = /^[!#]/;
+
+export function isDedupeMode(value: unknown): value is DedupeMode {
+  return DEDUPE_MODES.includes(value as DedupeMode);
+}
+
+export function parseDedupeMode(value: string): DedupeMode {
+  if (!isDedupeMode(value)) {
+    throw new Error(
+      `Invalid dedupe mode "${value}" (expected exact, semantic or off)`
+    );
+  }
+  return value;
+}
+
+// Git strips trailing spaces unless they are escaped with a backslash, so "foo\ " keeps its
+// space. Tabs and leading spaces are part of the pattern.
+export function trimRuleLine(line: string): string {
+  let end = line.length;
+  while (end > 0 && line[end - 1] === " ") {
+    let backslashes = 0;
+    while (line[end - 2 - backslashes] === "\\") {
+      backslashes += 1;
+    }
+    if (backslashes % 2 === 1) {
+      break;
+    }
+    end -= 1;
+  }
+  return line.slice(0, end);
+}
+
+// Null for blank lines and comments.
+export function parseGitignorePattern(line: string): GitignorePattern | null {
+  const rule = trimRuleLine(line);
+  if (rule.length === 0 || rule.startsWith("#")) {
+    return null;
+  }
+
+  const negated = rule.startsWith("!");
+  let body = negated ? rule.slice(1) : rule;
+  const directoryOnly = body.endsWith("/") && !body.endsWith("\\/");
+  if (directoryOnly) {
+    body = body.slice(0, -1);
+  }
+  // A slash anywhere but at the end anchors the pattern to the .gitignore directory.
+  const anchored = body.includes("/");
+  if (body.startsWith("/")) {
+    body = body.slice(1);
+  }
+  return { anchored, body, directoryOnly, negated };
+}
+
+function normalizeSegment(segment: string, keepTrailingSpace: boolean): string {
+  if (STARS_ONLY_PATTERN.test(segment)) {
+    return GLOBSTAR;
+  }
+
+  let normalized = "";
+  let previousStar = false;
+  for (let index = 0; index < segment.length; index += 1) {
+    const char = segment[index] ?? "";
+    if (char === "\\" && index + 1 < segment.length) {
+      index += 1;
+      const escaped = segment[index] ?? "";
+      const isTrailingSpace =
+        escaped === " " && keepTrailingSpace && index === segment.length - 1;
+      normalized +=
+        SIGNIFICANT_ESCAPES.has(escaped) || isTrailingSpace
+          ? `\\${escaped}`
+          : escaped;
+      previousStar = false;
+      continue;
+    }
+    // Inside a segment "**" is just "*".
+    if (char === "*" && previousStar) {
+      continue;
+    }
+    normalized += char;
+    previousStar = char === "*";
+  }
+  return normalized;
+}
+
+// Rewrites a pattern into one spelling per meaning: "**/foo" is "foo", "/a/b" is "a/b",
+// "\d" is "d" and "foo**" is "foo*".
+export function canonicalizeGitignorePattern(
+  pattern: GitignorePattern
+): GitignorePattern {
+  const rawSegments = pattern.body.split("/");
+  const segments: string[] = [];
+  rawSegments.forEach((segment, index) => {
+    const normalized = normalizeSegment(
+      segment,
+      !pattern.directoryOnly && index === rawSegments.length - 1
+    );
+    if (!(normalized === GLOBSTAR && segments.at(-1) === GLOBSTAR)) {
+      segments.push(normalized);
+    }
+  });
+
+  let anchored = pattern.anchored;
+  if (
+    segments.length === 2 &&
+    segments[0] === GLOBSTAR &&
+    segments[1] !== GLOBSTAR
+  ) {
+    segments.shift();
+    anchored = false;
+  }
+  return { ...pattern, anchored, body: segments.join("/") };
+}
+
+export function formatGitignorePattern(pattern: GitignorePattern): string {
+  let body = pattern.body;
+  if (pattern.anchored && !body.includes("/")) {
+    body = `/${body}`;
+  } else if (NEEDS_LEADING_ESCAPE_PATTERN.test(body)) {
+    body = `\\${body}`;
+  }
+  return `${pattern.negated ? "!" : ""}${body}${pattern.directoryOnly ? "/" : ""}`;
+}
+
+// Equivalent rules map to the same string; blank lines and comments are only trimmed.
+export function canonicalizeGitignoreRule(line: string): string {
+  const pattern = parseGitignorePattern(line);
+  return pattern
+    ? formatGitignorePattern(canonicalizeGitignorePattern(pattern))
+    : trimRuleLine(line);
+}
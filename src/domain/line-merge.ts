@@ -0,0 +1,217 @@
+export const CONFLICT_START_MARKER = "<<<<<<< local";
+export const CONFLICT_SEPARATOR_MARKER = "=======";
+export const CONFLICT_END_MARKER = ">>>>>>> upstream";
+
+export interface LineMergeResult {
+  conflicts: number;
+  lines: string[];
+}
+
+interface ChangeHunk {
+  baseEnd: number;
+  baseStart: number;
+  end: number;
+  side: "local" | "upstream";
+  start: number;
+}
+
+// Longest common subsequence as [baseIndex, otherIndex] pairs in ascending order.
+function matchCommonLines(base: string[], other: string[]): [number, number][] {
+  const width = other.length + 1;
+  const lengths = new Uint32Array((base.length + 1) * width);
+  for (let i = base.length - 1; i >= 0; i -= 1) {
+    for (let j = other.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        base[i] === other[j]
+          ? (lengths[(i + 1) * width + j + 1] ?? 0) + 1
+          : Math.max(
+              lengths[(i + 1) * width + j] ?? 0,
+              lengths[i * width + j + 1] ?? 0
+            );
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < other.length) {
+    if (base[i] === other[j]) {
+      pairs.push([i, j]);
+      i += 1;
+      j += 1;
+    } else if (
+      (lengths[(i + 1) * width + j] ?? 0) >= (lengths[i * width + j + 1] ?? 0)
+    ) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+  return pairs;
+}
+
+function findChangeHunks(
+  base: string[],
+  other: string[],
+  side: ChangeHunk["side"]
+): ChangeHunk[] {
+  const hunks: ChangeHunk[] = [];
+  let baseIndex = 0;
+  let otherIndex = 0;
+  const pairs = [...matchCommonLines(base, other), [base.length, other.length]];
+  for (const [baseMatch = 0, otherMatch = 0] of pairs) {
+    if (baseMatch > baseIndex || otherMatch > otherIndex) {
+      hunks.push({
+        baseEnd: baseMatch,
+        baseStart: baseIndex,
+        end: otherMatch,
+        side,
+        start: otherIndex,
+      });
+    }
+    baseIndex = baseMatch + 1;
+    otherIndex = otherMatch + 1;
+  }
+  return hunks;
+}
+
+// The lines one side has for base[groupStart, groupEnd), given that side's hunks inside it.
+function sliceSide(
+  base: string[],
+  other: string[],
+  hunks: ChangeHunk[],
+  groupStart: number,
+  groupEnd: number
+): string[] {
+  const first = hunks[0];
+  const last = hunks.at(-1);
+  if (!(first && last)) {
+    return base.slice(groupStart, groupEnd);
+  }
+  return other.slice(
+    first.start - (first.baseStart - groupStart),
+    last.end + (groupEnd - last.baseEnd)
+  );
+}
+
+function overlapsGroup(
+  hunk: ChangeHunk,
+  groupStart: number,
+  groupEnd: number
+): boolean {
+  // Two insertions at the same point have no natural order, so they conflict.
+  return (
+    hunk.baseStart < groupEnd ||
+    (hunk.baseStart === groupStart && hunk.baseStart === groupEnd)
+  );
+}
+
+function isSameLines(left: string[], right: string[]): boolean {
+  return (
+    left.length === right.length &&
+    left.every((line, index) => line === right[index])
+  );
+}
+
+// diff3-style merge: changes from one side win, identical changes merge, anything else conflicts.
+export function mergeLines(
+  base: string[],
+  local: string[],
+  upstream: string[]
+): LineMergeResult {
+  const hunks = [
+    ...findChangeHunks(base, local, "local"),
+    ...findChangeHunks(base, upstream, "upstream"),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const lines: string[] = [];
+  let conflicts = 0;
+  let baseIndex = 0;
+  let index = 0;
+  while (index < hunks.length) {
+    const group: ChangeHunk[] = [];
+    const groupStart = hunks[index]?.baseStart ?? 0;
+    let groupEnd = groupStart;
+    // Unlike git, an insertion right after an edit is not a conflict; it simply follows the edit.
+    while (
+      index < hunks.length &&
+      overlapsGroup(hunks[index] as ChangeHunk, groupStart, groupEnd)
+    ) {
+      const hunk = hunks[index] as ChangeHunk;
+      group.push(hunk);
+      groupEnd = Math.max(groupEnd, hunk.baseEnd);
+      index += 1;
+    }
+
+    lines.push(...base.slice(baseIndex, groupStart));
+    const localHunks = group.filter((hunk) => hunk.side === "local");
+    const upstreamHunks = group.filter((hunk) => hunk.side === "upstream");
+    const localLines = sliceSide(base, local, localHunks, groupStart, groupEnd);
+    const upstreamLines = sliceSide(
+      base,
+      upstream,
+      upstreamHunks,
+      groupStart,
+      groupEnd
+    );
+
+    if (upstreamHunks.length === 0 || isSameLines(localLines, upstreamLines)) {
+      lines.push(...localLines);
+    } else if (localHunks.length === 0) {
+      lines.push(...upstreamLines);
+    } else {
+      conflicts += 1;
+      lines.push(
+        CONFLICT_START_MARKER,
+        ...localLines,
+        CONFLICT_SEPARATOR_MARKER,
+        ...upstreamLines,
+        CONFLICT_END_MARKER
+      );
+    }
+    baseIndex = groupEnd;
+  }
+  lines.push(...base.slice(baseIndex));
+
+  return { conflicts, lines };
+}
+
+// Without a base there is no telling which side changed a line, so every difference conflicts.
+export function mergeLinesWithoutBase(
+  local: string[],
+  upstream: string[]
+): LineMergeResult {
+  const lines: string[] = [];
+  let conflicts = 0;
+  let localIndex = 0;
+  let upstreamIndex = 0;
+  const pairs = [
+    ...matchCommonLines(local, upstream),
+    [local.length, upstream.length],
+  ];
+  for (const [localMatch = 0, upstreamMatch = 0] of pairs) {
+    if (localMatch > localIndex || upstreamMatch > upstreamIndex) {
+      conflicts += 1;
+      lines.push(
+        CONFLICT_START_MARKER,
+        ...local.slice(localIndex, localMatch),
+        CONFLICT_SEPARATOR_MARKER,
+        ...upstream.slice(upstreamIndex, upstreamMatch),
+        CONFLICT_END_MARKER
+      );
+    }
+    if (localMatch < local.length) {
+      lines.push(local[localMatch] as string);
+    }
+    localIndex = localMatch + 1;
+    upstreamIndex = upstreamMatch + 1;
+  }
+
+  return { conflicts, lines };
+}
+
+export function hasConflictMarkers(lines: string[]): boolean {
+  return lines.some(
+    (line) => line === CONFLICT_START_MARKER || line === CONFLICT_END_MARKER
+  );
+}
@@ -1,13 +1,59 @@
-import type { TemplateWithSource } from "./types";
-
-export interface MergeGitignoreOptions {
-  includeWatermark: boolean;
-  useSimpleSectionSeparator: boolean;
-}
+import { computeBlobSha } from "./content-hash";
+import {
+  canonicalizeGitignoreRule,
+  DEFAULT_DEDUPE_MODE,
+  trimRuleLine,
+} from "./gitignore-pattern";
+import {
+  hasConflictMarkers,
+  mergeLines,
+  mergeLinesWithoutBase,
+} from "./line-merge";
+import {
+  createRuleTracker,
+  MANUAL_RULE_SOURCE,
+  type RuleConflict,
+  type RuleTracker,
+  trackRule,
+} from "./rule-order";
+import type { DedupeMode, TemplateWithSource } from "./types";
 
 export const GENERATED_BLOCK_START = "### IGNORE-HUB GENERATED START";
 export const GENERATED_BLOCK_END = "### IGNORE-HUB GENERATED END";
 
+export interface GeneratedBlockMetadata {
+  base: string | null;
+  // API host of a mirror or GitHub Enterprise registry; null for github.com.
+  host: string | null;
+  options: Record<string, string>;
+  ref: string | null;
+  repo: string | null;
+  templates: string[];
+  version: string | null;
+}
+
+// Template ids and the base checksum are derived from the generated sections.
+export type BlockMetadataInput = Omit<
+  GeneratedBlockMetadata,
+  "base" | "templates"
+>;
+
+export interface MergeGitignoreResult {
+  conflicts: number;
+  content: string;
+  // The block body as generated, before any hand edits were merged back in.
+  generatedBody: string;
+  // Rules from one template or the manual part that a later rule flips.
+  ruleConflicts: RuleConflict[];
+}
+
+export interface GeneratedSection {
+  id: string | null;
+  kind: string;
+  lines: string[];
+  name: string;
+}
+
 const GENERATED_BLOCK_PATTERN = new RegExp(
   `${escapeForRegExp(GENERATED_BLOCK_START)}[\\s\\S]*?${escapeForRegExp(
     GENERATED_BLOCK_END
@@ -15,6 +61,14 @@ const GENERATED_BLOCK_PATTERN = new RegExp(
   "g"
 );
 
+// Older blocks have no "[id]" suffix; their sections are identified by name.
+const SECTION_HEADER_PATTERN =
+  /^### (language|framework|global|community): (.+?)(?: \[([^\]\s]+)\])?$/;
+
+const METADATA_LINE_PATTERN =
+  /^# (ignore-hub|ref|repo|host|templates|options|base): (.*)$/;
+const METADATA_LIST_SEPARATOR = ", ";
+
 function escapeForRegExp(input: string): string {
   return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
@@ -28,8 +82,10 @@ function isRuleLine(line: string): boolean {
   return trimmed.length > 0 && !trimmed.startsWith("#");
 }
 
-function normalizeRuleLine(line: string): string {
-  return line.trim();
+function normalizeRuleLine(line: string, dedupe: DedupeMode): string {
+  return dedupe === "semantic"
+    ? canonicalizeGitignoreRule(line)
+    : trimRuleLine(line);
 }
 
 function trimTrailingBlankLines(lines: string[]): string[] {
@@ -48,7 +104,146 @@ export function stripGeneratedBlock(content: string): string {
   return withoutGenerated;
 }
 
-export function collectRuleSet(content: string): Set<string> {
+function renderMetadataLines(metadata: GeneratedBlockMetadata): string[] {
+  const options = Object.entries(metadata.options).map(
+    ([key, value]) => `${key}=${value}`
+  );
+  return [
+    ...(metadata.version ? [`# ignore-hub: ${metadata.version}`] : []),
+    ...(metadata.ref ? [`# ref: ${metadata.ref}`] : []),
+    ...(metadata.repo ? [`# repo: ${metadata.repo}`] : []),
+    ...(metadata.host ? [`# host: ${metadata.host}`] : []),
+    `# templates: ${metadata.templates.join(METADATA_LIST_SEPARATOR)}`,
+    ...(options.length > 0
+      ? [`# options: ${options.join(METADATA_LIST_SEPARATOR)}`]
+      : []),
+    ...(metadata.base ? [`# base: ${metadata.base}`] : []),
+  ];
+}
+
+function splitMetadataList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function applyMetadataLine(
+  metadata: GeneratedBlockMetadata,
+  key: string,
+  value: string
+): void {
+  switch (key) {
+    case "ignore-hub":
+      metadata.version = value;
+      break;
+    case "ref":
+      metadata.ref = value;
+      break;
+    case "repo":
+      metadata.repo = value;
+      break;
+    case "host":
+      metadata.host = value;
+      break;
+    case "templates":
+      metadata.templates = splitMetadataList(value);
+      break;
+    case "base":
+      metadata.base = value;
+      break;
+    default:
+      for (const option of splitMetadataList(value)) {
+        const [optionKey = "", optionValue = ""] = option.split("=");
+        metadata.options[optionKey] = optionValue;
+      }
+  }
+}
+
+// Counterpart of the metadata written after the start marker; null for blocks without it.
+export function readGeneratedMetadata(
+  content: string
+): GeneratedBlockMetadata | null {
+  const lines = normalizeNewlines(content).split("\n");
+  const start = lines.indexOf(GENERATED_BLOCK_START);
+  if (start === -1) {
+    return null;
+  }
+
+  const metadata: GeneratedBlockMetadata = {
+    base: null,
+    host: null,
+    options: {},
+    ref: null,
+    repo: null,
+    templates: [],
+    version: null,
+  };
+  let found = false;
+  for (const line of lines.slice(start + 1)) {
+    const match = METADATA_LINE_PATTERN.exec(line);
+    if (!match) {
+      break;
+    }
+    applyMetadataLine(metadata, match[1] ?? "", match[2] ?? "");
+    found = true;
+  }
+  return found ? metadata : null;
+}
+
+export function parseSectionHeader(
+  line: string
+): Omit<GeneratedSection, "lines"> | null {
+  const header = SECTION_HEADER_PATTERN.exec(line);
+  if (!header) {
+    return null;
+  }
+  return {
+    id: header[3] ?? null,
+    kind: header[1] ?? "",
+    name: header[2] ?? "",
+  };
+}
+
+// Sections of the managed block in file order; content outside the markers is ignored.
+export function parseGeneratedSections(content: string): GeneratedSection[] {
+  const sections: GeneratedSection[] = [];
+  let insideBlock = false;
+  let current: GeneratedSection | null = null;
+
+  for (const line of normalizeNewlines(content).split("\n")) {
+    if (line === GENERATED_BLOCK_START) {
+      insideBlock = true;
+      continue;
+    }
+    if (line === GENERATED_BLOCK_END) {
+      insideBlock = false;
+      current = null;
+      continue;
+    }
+    if (!insideBlock) {
+      continue;
+    }
+
+    const header = parseSectionHeader(line);
+    if (header) {
+      current = { ...header, lines: [] };
+      sections.push(current);
+      continue;
+    }
+    current?.lines.push(line);
+  }
+
+  return sections.map((section) => ({
+    ...section,
+    lines: trimTrailingBlankLines(section.lines),
+  }));
+}
+
+export function collectRuleSet(
+  content: string,
+  dedupe: DedupeMode = DEFAULT_DEDUPE_MODE
+): Set<string> {
   const normalized = normalizeNewlines(content);
   const rules = new Set<string>();
 
@@ -56,32 +251,56 @@ export function collectRuleSet(content: string): Set<string> {
     if (!isRuleLine(line)) {
       continue;
     }
-    rules.add(normalizeRuleLine(line));
+    rules.add(normalizeRuleLine(line, dedupe));
   }
 
   return rules;
 }
 
-function dedupeTemplateSourceLines(
+function trackRuleLine(
+  tracker: RuleTracker,
+  line: string,
   source: string,
-  seenRules: Set<string>
+  dedupe: DedupeMode
+): boolean {
+  return trackRule(
+    tracker,
+    trimRuleLine(line),
+    source,
+    normalizeRuleLine(line, dedupe)
+  );
+}
+
+function trackManualRules(
+  content: string,
+  tracker: RuleTracker,
+  dedupe: DedupeMode
+): void {
+  for (const line of normalizeNewlines(content).split("\n")) {
+    if (isRuleLine(line)) {
+      trackRuleLine(tracker, line, MANUAL_RULE_SOURCE, dedupe);
+    }
+  }
+}
+
+function dedupeTemplateSourceLines(
+  template: TemplateWithSource,
+  tracker: RuleTracker,
+  dedupe: DedupeMode
 ): string[] {
   const output: string[] = [];
-  const normalized = normalizeNewlines(source);
+  const normalized = normalizeNewlines(template.source);
 
   for (const line of normalized.split("\n")) {
     if (!isRuleLine(line)) {
       output.push(line);
       continue;
     }
-
-    const normalizedRule = normalizeRuleLine(line);
-    if (seenRules.has(normalizedRule)) {
-      continue;
+    // With dedupe off every rule is kept, but overrides are still tracked and reported.
+    const kept = trackRuleLine(tracker, line, template.meta.id, dedupe);
+    if (kept || dedupe === "off") {
+      output.push(line);
     }
-
-    seenRules.add(normalizedRule);
-    output.push(line);
   }
 
   return trimTrailingBlankLines(output);
@@ -95,27 +314,21 @@ function getSectionHeader(
     return `## ${template.meta.name}`;
   }
 
-  return `### ${template.meta.kind}: ${template.meta.name}`;
+  return `### ${template.meta.kind}: ${template.meta.name} [${template.meta.id}]`;
 }
 
-function buildGeneratedBlock(
+function buildSectionLines(
   templates: TemplateWithSource[],
-  existingRules: Set<string>,
-  options: MergeGitignoreOptions
-): string {
+  tracker: RuleTracker,
+  useSimpleSectionSeparator: boolean,
+  dedupe: DedupeMode
+): string[] {
   const lines: string[] = [];
 
-  if (options.includeWatermark) {
-    lines.push(GENERATED_BLOCK_START);
-  }
-
   for (const template of templates) {
-    lines.push(getSectionHeader(template, options.useSimpleSectionSeparator));
+    lines.push(getSectionHeader(template, useSimpleSectionSeparator));
 
-    const sectionLines = dedupeTemplateSourceLines(
-      template.source,
-      existingRules
-    );
+    const sectionLines = dedupeTemplateSourceLines(template, tracker, dedupe);
     if (sectionLines.length > 0) {
       lines.push(...sectionLines);
     }
@@ -127,15 +340,68 @@ function buildGeneratedBlock(
     lines.pop();
   }
 
-  if (options.includeWatermark) {
-    lines.push(GENERATED_BLOCK_END);
+  return lines;
+}
+
+function buildGeneratedBlock(
+  body: string[],
+  metadata: GeneratedBlockMetadata | null,
+  includeWatermark: boolean
+): string {
+  if (!includeWatermark) {
+    return body.join("\n");
+  }
+
+  return [
+    GENERATED_BLOCK_START,
+    ...(metadata ? renderMetadataLines(metadata) : []),
+    ...body,
+    GENERATED_BLOCK_END,
+  ].join("\n");
+}
+
+// The block between the markers without its metadata lines, or null when there is no block.
+export function readGeneratedBody(content: string): string[] | null {
+  const lines = normalizeNewlines(content).split("\n");
+  let start = lines.indexOf(GENERATED_BLOCK_START);
+  const end = lines.indexOf(GENERATED_BLOCK_END, start + 1);
+  if (start === -1 || end === -1) {
+    return null;
   }
 
-  if (lines.length === 0) {
-    return "";
+  start += 1;
+  while (start < end && METADATA_LINE_PATTERN.test(lines[start] ?? "")) {
+    start += 1;
+  }
+  return lines.slice(start, end);
+}
+
+// Hand edits are detected by comparing the block with the checksum of what was last generated.
+function reconcileGeneratedBody(
+  existingContent: string,
+  generatedBody: string[],
+  previousBody: string[] | null
+): { body: string[]; conflicts: number } {
+  const base = readGeneratedMetadata(existingContent)?.base;
+  const localBody = readGeneratedBody(existingContent);
+  if (!(base && localBody) || computeBlobSha(localBody.join("\n")) === base) {
+    return { body: generatedBody, conflicts: 0 };
   }
 
-  return lines.join("\n");
+  if (hasConflictMarkers(localBody)) {
+    throw new Error(
+      "The generated block still has conflict markers. Resolve them and run again."
+    );
+  }
+  if (computeBlobSha(generatedBody.join("\n")) === base) {
+    return { body: localBody, conflicts: 0 };
+  }
+  // A fresh clone, CI or a cleared cache has no copy of the base, so fall back to a two-way merge.
+  const merged =
+    previousBody && computeBlobSha(previousBody.join("\n")) === base
+      ? mergeLines(previousBody, localBody, generatedBody)
+      : mergeLinesWithoutBase(localBody, generatedBody);
+  return { body: merged.lines, conflicts: merged.conflicts };
 }
 
 function composeOutput(manualContent: string, generatedBlock: string): string {
@@ -148,25 +414,58 @@ function composeOutput(manualContent: string, generatedBlock: string): string {
 }
 
 interface MergeGitignoreInput {
+  dedupe?: DedupeMode;
   existingContent: string | null;
   includeWatermark?: boolean;
+  metadata?: BlockMetadataInput;
+  previousBody?: string[] | null;
   templates: TemplateWithSource[];
   useSimpleSectionSeparator?: boolean;
 }
 
-export function mergeGitignore({
+export function mergeGitignoreWithEdits({
+  dedupe = DEFAULT_DEDUPE_MODE,
   existingContent,
   templates,
   includeWatermark = true,
+  metadata,
+  previousBody = null,
   useSimpleSectionSeparator = false,
-}: MergeGitignoreInput): string {
+}: MergeGitignoreInput): MergeGitignoreResult {
   const source = existingContent ?? "";
   const manualContent = stripGeneratedBlock(source);
-  const existingRules = collectRuleSet(manualContent);
-  const generatedBlock = buildGeneratedBlock(templates, existingRules, {
-    includeWatermark,
+  const tracker = createRuleTracker();
+  trackManualRules(manualContent, tracker, dedupe);
+  const generatedBody = buildSectionLines(
+    templates,
+    tracker,
     useSimpleSectionSeparator,
-  });
+    dedupe
+  );
+  const reconciled = includeWatermark
+    ? reconcileGeneratedBody(source, generatedBody, previousBody)
+    : { body: generatedBody, conflicts: 0 };
+
+  const generatedBlock = buildGeneratedBlock(
+    reconciled.body,
+    metadata
+      ? {
+          ...metadata,
+          base: computeBlobSha(generatedBody.join("\n")),
+          templates: templates.map((template) => template.meta.id),
+        }
+      : null,
+    includeWatermark
+  );
+
+  return {
+    conflicts: reconciled.conflicts,
+    content: composeOutput(manualContent, generatedBlock),
+    generatedBody: generatedBody.join("\n"),
+    ruleConflicts: tracker.conflicts,
+  };
+}
 
-  return composeOutput(manualContent, generatedBlock);
+export function mergeGitignore(input: MergeGitignoreInput): string {
+  return mergeGitignoreWithEdits(input).content;
 }
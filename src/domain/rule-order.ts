@@ -0,0 +1,229 @@
+import {
+  type GitignoreRule,
+  matchGitignorePath,
+  parseGitignoreRules,
+} from "./gitignore-matcher";
+import type { GitignorePattern } from "./gitignore-pattern";
+
+export const MANUAL_RULE_SOURCE = "manual rules";
+
+const GLOB_CHAR_PATTERN = /(?<!\\)[*?[]/;
+const ESCAPE_PATTERN = /\\(.)/g;
+
+export interface RuleOrigin {
+  rule: string;
+  source: string;
+}
+
+export interface RuleConflict {
+  // "unreachable" when a negation sits inside a directory that stays excluded.
+  kind: "override" | "unreachable";
+  overridden: RuleOrigin;
+  overriding: RuleOrigin;
+  pattern: string;
+}
+
+interface TrackedRule {
+  negated: boolean;
+  origin: RuleOrigin;
+  position: number;
+}
+
+interface CompiledRule {
+  compiled: GitignoreRule;
+  origin: RuleOrigin;
+  // The one path a pattern without wildcards stands for, null for globs.
+  path: string | null;
+}
+
+export interface RuleTracker {
+  conflicts: RuleConflict[];
+  lastByPattern: Map<string, TrackedRule>;
+  lastNegationAt: number;
+  lastPositiveAt: number;
+  position: number;
+  rules: CompiledRule[];
+}
+
+export function createRuleTracker(): RuleTracker {
+  return {
+    conflicts: [],
+    lastByPattern: new Map(),
+    lastNegationAt: -1,
+    lastPositiveAt: -1,
+    position: 0,
+    rules: [],
+  };
+}
+
+function splitNegation(rule: string): { negated: boolean; pattern: string } {
+  return rule.startsWith("!")
+    ? { negated: true, pattern: rule.slice(1) }
+    : { negated: false, pattern: rule };
+}
+
+function literalPath(pattern: GitignorePattern): string | null {
+  return GLOB_CHAR_PATTERN.test(pattern.body)
+    ? null
+    : pattern.body.replace(ESCAPE_PATTERN, "$1");
+}
+
+function addConflict(
+  tracker: RuleTracker,
+  conflict: RuleConflict,
+  source: string
+): void {
+  const isReported = tracker.conflicts.some(
+    (existing) =>
+      existing.overridden === conflict.overridden &&
+      existing.overriding === conflict.overriding
+  );
+  if (conflict.overridden.source !== source && !isReported) {
+    tracker.conflicts.push(conflict);
+  }
+}
+
+function findOrigin(
+  tracker: RuleTracker,
+  compiled: GitignoreRule
+): RuleOrigin | null {
+  return (
+    tracker.rules.find((entry) => entry.compiled === compiled)?.origin ?? null
+  );
+}
+
+// Whether adding `next` changes how git treats `path`, or leaves a negation of it unreachable.
+function checkPath(
+  tracker: RuleTracker,
+  next: CompiledRule,
+  path: string,
+  isDirectory: boolean
+): RuleConflict | null {
+  const compiledRules = tracker.rules.map((entry) => entry.compiled);
+  const after = matchGitignorePath(
+    [...compiledRules, next.compiled],
+    path,
+    isDirectory
+  );
+  if (next.compiled.pattern.negated && path === next.path && after?.parent) {
+    const overridden = findOrigin(tracker, after.rule);
+    return overridden
+      ? {
+          kind: "unreachable",
+          overridden,
+          overriding: next.origin,
+          pattern: path,
+        }
+      : null;
+  }
+  if (after?.rule !== next.compiled) {
+    return null;
+  }
+
+  const before = matchGitignorePath(compiledRules, path, isDirectory);
+  const overridden = before ? findOrigin(tracker, before.rule) : null;
+  return before && overridden && before.ignored !== after.ignored
+    ? { kind: "override", overridden, overriding: next.origin, pattern: path }
+    : null;
+}
+
+function matchesPath(rule: GitignoreRule, path: string): boolean {
+  return Boolean(
+    matchGitignorePath([rule], path, true) ||
+      matchGitignorePath([rule], path, false)
+  );
+}
+
+// Paths that can show an overlap: the new rule's own path and, since only earlier rules of
+// the other polarity can be flipped, theirs. Two globs are only compared when identical.
+// A positive rule can only flip its own path when an earlier negation matches it.
+function reportOverlaps(tracker: RuleTracker, next: CompiledRule): void {
+  const negated = next.compiled.pattern.negated;
+  const ownPath = next.path;
+  const paths = new Set<string>();
+  if (
+    ownPath !== null &&
+    (negated ||
+      tracker.rules.some(
+        (entry) =>
+          entry.compiled.pattern.negated && matchesPath(entry.compiled, ownPath)
+      ))
+  ) {
+    paths.add(ownPath);
+  }
+  for (const entry of tracker.rules) {
+    if (
+      entry.path !== null &&
+      entry.compiled.pattern.negated !== negated &&
+      matchesPath(next.compiled, entry.path)
+    ) {
+      paths.add(entry.path);
+    }
+  }
+
+  for (const path of paths) {
+    const conflict =
+      checkPath(tracker, next, path, false) ??
+      checkPath(tracker, next, path, true);
+    if (conflict) {
+      addConflict(tracker, conflict, next.origin.source);
+    }
+  }
+}
+
+// Last match wins, so a repeated rule is only redundant when no rule of the opposite
+// polarity came after its previous occurrence. Returns false for rules that can be dropped.
+// Rules are compared by `key`, e.g. their canonical form; `rule` is what gets reported.
+export function trackRule(
+  tracker: RuleTracker,
+  rule: string,
+  source: string,
+  key: string = rule
+): boolean {
+  const position = tracker.position;
+  tracker.position += 1;
+  const { negated, pattern } = splitNegation(key);
+  const previous = tracker.lastByPattern.get(pattern);
+  const origin = { rule, source };
+
+  if (previous?.negated === negated) {
+    const oppositeAt = negated
+      ? tracker.lastPositiveAt
+      : tracker.lastNegationAt;
+    if (oppositeAt < previous.position) {
+      return false;
+    }
+  } else if (previous) {
+    addConflict(
+      tracker,
+      {
+        kind: "override",
+        overridden: previous.origin,
+        overriding: origin,
+        pattern,
+      },
+      source
+    );
+  }
+
+  const compiled = parseGitignoreRules(rule)[0];
+  if (compiled) {
+    const next = { compiled, origin, path: literalPath(compiled.pattern) };
+    reportOverlaps(tracker, next);
+    tracker.rules.push(next);
+  }
+  tracker.lastByPattern.set(pattern, { negated, origin, position });
+  if (negated) {
+    tracker.lastNegationAt = position;
+  } else {
+    tracker.lastPositiveAt = position;
+  }
+  return true;
+}
+
+export function describeRuleConflict(conflict: RuleConflict): string {
+  if (conflict.kind === "unreachable") {
+    return `"${conflict.overriding.rule}" from ${conflict.overriding.source} cannot re-include a path inside "${conflict.overridden.rule}" from ${conflict.overridden.source}`;
+  }
+  return `"${conflict.overriding.rule}" from ${conflict.overriding.source} overrides "${conflict.overridden.rule}" from ${conflict.overridden.source}`;
+}
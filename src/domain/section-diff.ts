@@ -0,0 +1,74 @@
+import { collectRuleSet, type GeneratedSection } from "./merge-gitignore";
+
+export interface SectionRuleDiff {
+  added: string[];
+  id: string;
+  removed: string[];
+  status: "added" | "changed" | "removed" | "unchanged";
+}
+
+// Compared as written, so the summary shows the lines that actually change.
+function sectionRules(section: GeneratedSection | undefined): Set<string> {
+  return section
+    ? collectRuleSet(section.lines.join("\n"), "exact")
+    : new Set();
+}
+
+// Headers written before ids were recorded only carry the name.
+function findPreviousSection(
+  before: GeneratedSection[],
+  section: GeneratedSection
+): GeneratedSection | undefined {
+  return (
+    before.find((candidate) => candidate.id === section.id) ??
+    before.find(
+      (candidate) => candidate.id === null && candidate.name === section.name
+    )
+  );
+}
+
+function diffRules(
+  id: string,
+  previous: GeneratedSection | undefined,
+  next: GeneratedSection | undefined
+): SectionRuleDiff {
+  const previousRules = sectionRules(previous);
+  const nextRules = sectionRules(next);
+  const added = [...nextRules].filter((rule) => !previousRules.has(rule));
+  const removed = [...previousRules].filter((rule) => !nextRules.has(rule));
+
+  let status: SectionRuleDiff["status"] = "unchanged";
+  if (!previous) {
+    status = "added";
+  } else if (!next) {
+    status = "removed";
+  } else if (added.length > 0 || removed.length > 0) {
+    status = "changed";
+  }
+  return { added, id, removed, status };
+}
+
+export function diffGeneratedSections(
+  before: GeneratedSection[],
+  after: GeneratedSection[]
+): SectionRuleDiff[] {
+  const matched = new Set<GeneratedSection>();
+  const diffs = after.map((section) => {
+    const previous = findPreviousSection(before, section);
+    if (previous) {
+      matched.add(previous);
+    }
+    return diffRules(section.id ?? section.name, previous, section);
+  });
+
+  for (const section of before) {
+    if (!matched.has(section)) {
+      diffs.push(diffRules(section.id ?? section.name, section, undefined));
+    }
+  }
+  return diffs;
+}
+
+export function hasSectionChanges(diffs: SectionRuleDiff[]): boolean {
+  return diffs.some((diff) => diff.status !== "unchanged");
+}
@@ -1,36 +1,186 @@
-export type TemplateKind = "language" | "framework" | "global";
+export type TemplateKind = "language" | "framework" | "global" | "community";
 
 export interface TemplateMeta {
+  category?: string;
   id: string;
   kind: TemplateKind;
   name: string;
   path: string;
+  sha?: string;
+  source?: string;
+}
+
+export interface TemplateTreeEntry {
+  path: string;
+  sha: string;
+}
+
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
 }
 
 export interface CacheIndex {
   fetchedAt: string;
-  sourceRef: "main";
+  origin?: string;
+  schemaVersion?: number;
+  sourceRef: string;
   templates: TemplateMeta[];
+  validators?: HttpValidators;
+}
+
+export type ConditionalResponse<T> =
+  | { notModified: true; validators: HttpValidators }
+  | { notModified: false; validators: HttpValidators; value: T };
+
+export interface TemplateSourceRequest {
+  signal?: AbortSignal;
+  validators?: HttpValidators;
+}
+
+// Where remote templates come from; the cache only ever talks to GitHub through this.
+export interface TemplateSource {
+  describeRevision(ref: string): string;
+  fetchTemplate(
+    path: string,
+    ref: string,
+    request?: TemplateSourceRequest
+  ): Promise<ConditionalResponse<string>>;
+  listTemplates(
+    ref: string,
+    request?: TemplateSourceRequest
+  ): Promise<ConditionalResponse<TemplateTreeEntry[]>>;
+  // Cache identity: indexes and validators are only reused for the same origin.
+  readonly origin: string;
+}
+
+export interface GitHubEndpoint {
+  apiUrl: string;
+  owner: string;
+  rawUrl: string;
+  repo: string;
+}
+
+export interface GitHubTemplateRegistry {
+  apiUrl?: string;
+  kind: "github";
+  name: string;
+  priority: number;
+  rawUrl?: string;
+  ref?: string;
+  repo?: string;
+}
+
+export interface DirectoryTemplateRegistry {
+  kind: "directory";
+  name: string;
+  path: string;
+  priority: number;
 }
 
+export type TemplateRegistry =
+  | GitHubTemplateRegistry
+  | DirectoryTemplateRegistry;
+
+export type TemplateSourceResolver = (
+  registry: GitHubTemplateRegistry
+) => TemplateSource;
+
 export interface CliOptions {
+  addTemplates: string[];
+  apiUrl: string | null;
   auto: boolean;
+  cacheDir: string | null;
+  cacheMaxAge: string | null;
+  concurrency: number;
+  dedupe: DedupeMode;
+  dryRun: boolean;
+  // Options given on the command line, so recorded values never override them.
+  explicitOptions: ExplicitOption[];
+  frozen: boolean;
+  impact: boolean;
   includeWatermark: boolean;
   nonInteractive: boolean;
+  offline: boolean;
   output: string;
+  proxy: string | null;
+  rawUrl: string | null;
+  ref: string;
   refresh: boolean;
+  registries: TemplateRegistry[];
+  removeTemplates: string[];
+  repo: string | null;
+  retries: number;
+  sourceDir: string | null;
   stdout: boolean;
   templates: string[];
+  timeoutMs: number;
   useSimpleSectionSeparator: boolean;
+  yes: boolean;
+}
+
+export type ExplicitOption = "dedupe" | "ref";
+
+// How repeated rules are detected: by spelling, by meaning, or not at all.
+export type DedupeMode = "exact" | "semantic" | "off";
+
+export type CacheCommand =
+  | { action: "clear" | "info" | "prune"; kind: "cache" }
+  | { action: "export" | "import"; file: string; kind: "cache" };
+
+export interface UpdateCommand {
+  kind: "update";
 }
 
+export interface CheckCommand {
+  kind: "check";
+  paths: string[];
+}
+
+export type CliCommand = CacheCommand | CheckCommand | UpdateCommand;
+
 export interface TemplateWithSource {
   meta: TemplateMeta;
   source: string;
 }
 
+export interface RequestRetryOptions {
+  retries: number;
+  timeoutMs: number;
+}
+
+export interface IndexLoadOptions {
+  cacheDir: string;
+  maxAgeMs: number | null;
+  offline: boolean;
+  refresh: boolean;
+  registries: TemplateRegistry[];
+  // Timeout and retries for the index request; the download defaults when omitted.
+  retry?: RequestRetryOptions;
+  templateSources: TemplateSourceResolver;
+}
+
 export interface IndexLoadResult {
   index: CacheIndex;
-  source: "network" | "cache";
+  source: "network" | "cache" | "embedded" | "local";
+  staleAgeMs?: number;
   warning?: string;
 }
+
+export interface LockedTemplate extends TemplateMeta {
+  contentHash: string;
+  sha: string;
+}
+
+export interface TemplateLockfile {
+  lockfileVersion: 1;
+  options: {
+    // Missing in lockfiles written before --dedupe existed, which deduped exactly.
+    dedupe?: DedupeMode;
+    includeWatermark: boolean;
+    useSimpleSectionSeparator: boolean;
+  };
+  outputHash: string;
+  sourceRef: string;
+  templates: LockedTemplate[];
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import {
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { withFileLock, writeFileAtomic } from "../src/data/atomic-file";
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "ignore-hub-atomic-"));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+test("replaces files without leaving temp files behind", async () => {
+  const target = join(root, "nested", "index.json");
+  await writeFileAtomic(target, "first");
+  await writeFileAtomic(target, "second");
+
+  expect(await readFile(target, "utf8")).toBe("second");
+  expect(await readdir(join(root, "nested"))).toEqual(["index.json"]);
+});
+
+test("runs locked tasks one at a time", async () => {
+  const lockPath = join(root, "index.json.lock");
+  const events: string[] = [];
+  const task = (name: string) => () =>
+    withFileLock(
+      lockPath,
+      async () => {
+        events.push(`${name}:start`);
+        await new Promise((resolvePromise) => setTimeout(resolvePromise, 20));
+        events.push(`${name}:end`);
+      },
+      { retryDelayMs: 5 }
+    );
+
+  // b only starts waiting once a holds the lock, so the order is deterministic.
+  const first = task("a")();
+  while (events.length === 0) {
+    await new Promise((resolvePromise) => setTimeout(resolvePromise, 1));
+  }
+  await Promise.all([first, task("b")()]);
+
+  expect(events).toEqual(["a:start", "a:end", "b:start", "b:end"]);
+  expect(await readdir(root)).toEqual([]);
+});
+
+test("takes over a lock left behind by a crashed process", async () => {
+  const lockPath = join(root, "index.json.lock");
+  await writeFile(lockPath, "12345\n", "utf8");
+  const longAgo = new Date(Date.now() - 120_000);
+  await utimes(lockPath, longAgo, longAgo);
+
+  expect(await withFileLock(lockPath, () => Promise.resolve("done"))).toBe(
+    "done"
+  );
+});
+
+test("gives up on a live lock after the timeout", async () => {
+  const lockPath = join(root, "index.json.lock");
+  await writeFile(lockPath, "12345\n", "utf8");
+
+  await expect(
+    withFileLock(lockPath, () => Promise.resolve("done"), {
+      retryDelayMs: 5,
+      timeoutMs: 20,
+    })
+  ).rejects.toThrow("Timed out waiting for");
+});
+
+test("lets only one waiter take over a stale lock", async () => {
+  const lockPath = join(root, "index.json.lock");
+  await writeFile(lockPath, "12345\n", "utf8");
+  const longAgo = new Date(Date.now() - 120_000);
+  await utimes(lockPath, longAgo, longAgo);
+
+  let active = 0;
+  let peak = 0;
+  const task = () =>
+    withFileLock(
+      lockPath,
+      async () => {
+        active += 1;
+        peak = Math.max(peak, active);
+        await new Promise((resolvePromise) => setTimeout(resolvePromise, 20));
+        active -= 1;
+      },
+      { retryDelayMs: 5 }
+    );
+
+  await Promise.all([task(), task(), task()]);
+
+  expect(peak).toBe(1);
+  expect(await readdir(root)).toEqual([]);
+});
+
+test("keeps a long-running holder's lock fresh", async () => {
+  const lockPath = join(root, "index.json.lock");
+  const events: string[] = [];
+  const options = { retryDelayMs: 5, staleMs: 30 };
+
+  const slow = withFileLock(
+    lockPath,
+    async () => {
+      events.push("slow:start");
+      await new Promise((resolvePromise) => setTimeout(resolvePromise, 120));
+      events.push("slow:end");
+    },
+    options
+  );
+  await new Promise((resolvePromise) => setTimeout(resolvePromise, 10));
+  const waiter = withFileLock(
+    lockPath,
+    () => {
+      events.push("waiter");
+      return Promise.resolve();
+    },
+    options
+  );
+
+  await Promise.all([slow, waiter]);
+  expect(events).toEqual(["slow:start", "slow:end", "waiter"]);
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import {
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import {
+  clearCache,
+  exportCache,
+  getCacheInfo,
+  importCache,
+  pruneCache,
+} from "../src/data/cache-maintenance";
+import { DEFAULT_TEMPLATE_ORIGIN } from "../src/data/github-client";
+
+const KEPT_SHA = "a".repeat(40);
+const ORPHAN_SHA = "b".repeat(40);
+
+let root: string;
+
+async function writeCacheFile(path: string, content: string): Promise<void> {
+  const target = join(root, "cache", path);
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(target, content, "utf8");
+}
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "ignore-hub-cache-"));
+  await writeCacheFile(
+    "index.json",
+    JSON.stringify({
+      fetchedAt: "2026-01-01T00:00:00.000Z",
+      sourceRef: "main",
+      templates: [
+        {
+          id: "Node",
+          kind: "framework",
+          name: "Node",
+          path: "Node.gitignore",
+          sha: KEPT_SHA,
+        },
+      ],
+    })
+  );
+  await writeCacheFile(`bodies/aa/${KEPT_SHA}`, "node_modules/\n");
+  await writeCacheFile(`bodies/bb/${ORPHAN_SHA}`, "dist/\n");
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+test("summarizes cached indexes and bodies", async () => {
+  const info = await getCacheInfo(join(root, "cache"));
+
+  expect(info.bodyCount).toBe(2);
+  expect(info.sizeBytes).toBeGreaterThan(0);
+  expect(info.indexes).toEqual([
+    {
+      fetchedAt: "2026-01-01T00:00:00.000Z",
+      origin: DEFAULT_TEMPLATE_ORIGIN,
+      path: join(root, "cache", "index.json"),
+      sourceRef: "main",
+      templateCount: 1,
+    },
+  ]);
+});
+
+test("prunes bodies that no cached index refers to", async () => {
+  const result = await pruneCache(join(root, "cache"));
+
+  expect(result).toEqual({ freedBytes: 6, removedBlocks: 0, removedBodies: 1 });
+  expect((await getCacheInfo(join(root, "cache"))).bodyCount).toBe(1);
+});
+
+test("prunes old block copies unless the output was generated from them", async () => {
+  const day = 24 * 60 * 60 * 1000;
+  await writeCacheFile(`blocks/${KEPT_SHA}`, "dist/\n");
+  await writeCacheFile(`blocks/${ORPHAN_SHA}`, "build/\n");
+  const cacheDir = join(root, "cache");
+
+  expect((await pruneCache(cacheDir, [], Date.now() + day)).removedBlocks).toBe(
+    0
+  );
+  const result = await pruneCache(cacheDir, [KEPT_SHA], Date.now() + 31 * day);
+
+  expect(result.removedBlocks).toBe(1);
+  expect(await readdir(join(cacheDir, "blocks"))).toEqual([KEPT_SHA]);
+});
+
+test("round-trips the cache through an archive", async () => {
+  const archivePath = join(root, "seed.ih.gz");
+  expect(await exportCache(join(root, "cache"), archivePath)).toBe(3);
+
+  const target = join(root, "air-gapped");
+  expect(await importCache(target, archivePath)).toBe(3);
+  expect(await readFile(join(target, "bodies", "aa", KEPT_SHA), "utf8")).toBe(
+    "node_modules/\n"
+  );
+});
+
+test("rejects files that are not cache archives", async () => {
+  const archivePath = join(root, "notes.txt");
+  await writeFile(archivePath, "hello", "utf8");
+
+  await expect(importCache(join(root, "target"), archivePath)).rejects.toThrow(
+    "is not an ignore-hub cache archive"
+  );
+});
+
+test("clears only the files ignore-hub created", async () => {
+  await writeCacheFile("index.json.lock", "123\n");
+  await writeCacheFile(`blocks/${KEPT_SHA}`, "dist/\n");
+  await clearCache(join(root, "cache"));
+
+  expect(await readdir(root)).toEqual([]);
+  await clearCache(join(root, "cache"));
+});
+
+test("refuses to clear a directory with foreign files", async () => {
+  await writeFile(join(root, "package.json"), "{}", "utf8");
+
+  await expect(clearCache(root)).rejects.toThrow(
+    `Refusing to clear ${root}: it contains files ignore-hub did not create (cache, package.json)`
+  );
+  expect((await readdir(root)).sort()).toEqual(["cache", "package.json"]);
+  expect(await readFile(join(root, "cache", "index.json"), "utf8")).toContain(
+    "Node"
+  );
+});
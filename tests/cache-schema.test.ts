@@ -0,0 +1,57 @@
+import { expect, test } from "bun:test";
+import {
+  CACHE_SCHEMA_VERSION,
+  parseCacheIndex,
+} from "../src/data/cache-schema";
+import { DEFAULT_TEMPLATE_ORIGIN } from "../src/data/github-client";
+import type { TemplateMeta } from "../src/domain/types";
+
+const TEMPLATES: TemplateMeta[] = [
+  { id: "Node", kind: "framework", name: "Node", path: "Node.gitignore" },
+];
+
+test("migrates unversioned cache files to the current schema", () => {
+  const result = parseCacheIndex({
+    fetchedAt: "2025-01-01T00:00:00.000Z",
+    sourceRef: "main",
+    templates: TEMPLATES,
+  });
+
+  expect(result).toEqual({
+    index: {
+      fetchedAt: "2025-01-01T00:00:00.000Z",
+      origin: DEFAULT_TEMPLATE_ORIGIN,
+      schemaVersion: CACHE_SCHEMA_VERSION,
+      sourceRef: "main",
+      templates: TEMPLATES,
+    },
+    migrated: true,
+    status: "ok",
+  });
+});
+
+test("keeps current cache files as they are", () => {
+  const index = {
+    fetchedAt: "2025-01-01T00:00:00.000Z",
+    origin: "https://ghe.example.com/api/v3/repos/platform/gitignore",
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    sourceRef: "v2",
+    templates: TEMPLATES,
+  };
+
+  expect(parseCacheIndex(index)).toEqual({
+    index,
+    migrated: false,
+    status: "ok",
+  });
+});
+
+test("reports cache files written by a newer version", () => {
+  expect(
+    parseCacheIndex({ schemaVersion: CACHE_SCHEMA_VERSION + 1, future: true })
+  ).toEqual({ schemaVersion: CACHE_SCHEMA_VERSION + 1, status: "newer" });
+  expect(parseCacheIndex({ schemaVersion: "2" })).toEqual({
+    status: "invalid",
+  });
+  expect(parseCacheIndex([])).toEqual({ status: "invalid" });
+});
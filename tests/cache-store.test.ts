@@ -0,0 +1,292 @@
+import { afterEach, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  findNewTemplates,
+  loadTemplateIndex,
+  loadTemplateSource,
+  readCachedTemplateSource,
+  readCacheIndex,
+  resolveCacheDir,
+  resolveCacheFilePath,
+  writeCachedTemplateSource,
+  writeCacheIndex,
+} from "../src/data/cache-store";
+import {
+  describeGitHubEndpoint,
+  GitHubRequestError,
+  resolveGitHubEndpoint,
+} from "../src/data/github-client";
+import { createMemoryTemplateSource } from "../src/data/memory-source";
+import { resolveTemplateRegistries } from "../src/data/registries";
+import { buildCacheIndex } from "../src/domain/classification";
+import { computeBlobSha } from "../src/domain/content-hash";
+import type { TemplateSource } from "../src/domain/types";
+
+test("caches pinned refs side by side with the default index", () => {
+  const defaultPath = resolveCacheFilePath();
+  expect(defaultPath.endsWith("index.json")).toBe(true);
+  expect(resolveCacheFilePath("main")).toBe(defaultPath);
+  expect(resolveCacheFilePath("v1.0")).not.toBe(defaultPath);
+  expect(resolveCacheFilePath("feature/x")).toContain("feature%2Fx");
+});
+
+test("keeps mirror caches apart from the github.com cache", () => {
+  const mirror = describeGitHubEndpoint(
+    resolveGitHubEndpoint({ apiUrl: "https://ghe.example.com/api/v3" })
+  );
+  const otherMirror = describeGitHubEndpoint(
+    resolveGitHubEndpoint({
+      apiUrl: "https://ghe.example.com/api/v3",
+      repo: "platform/gitignore",
+    })
+  );
+
+  expect(resolveCacheFilePath("main", mirror)).not.toBe(resolveCacheFilePath());
+  expect(resolveCacheFilePath("main", mirror)).toContain("mirrors");
+  expect(resolveCacheFilePath("main", otherMirror)).not.toBe(
+    resolveCacheFilePath("main", mirror)
+  );
+});
+
+test("reports templates that appeared after a refresh", () => {
+  const before = [
+    {
+      id: "Node",
+      kind: "language" as const,
+      name: "Node",
+      path: "Node.gitignore",
+    },
+  ];
+  const after = [
+    ...before,
+    {
+      id: "Zig",
+      kind: "language" as const,
+      name: "Zig",
+      path: "Zig.gitignore",
+    },
+  ];
+
+  expect(findNewTemplates(before, after).map(({ id }) => id)).toEqual(["Zig"]);
+  expect(findNewTemplates(after, before)).toEqual([]);
+});
+
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+test("resolves the cache directory from flag, env and XDG in that order", () => {
+  Reflect.deleteProperty(process.env, "IGNORE_HUB_CACHE_DIR");
+  Reflect.deleteProperty(process.env, "XDG_CACHE_HOME");
+  expect(resolveCacheDir()).toBe(join(homedir(), ".cache", "ignore-hub"));
+
+  process.env.XDG_CACHE_HOME = "/var/cache";
+  expect(resolveCacheDir()).toBe("/var/cache/ignore-hub");
+
+  process.env.IGNORE_HUB_CACHE_DIR = "/tmp/ih-cache";
+  expect(resolveCacheDir()).toBe("/tmp/ih-cache");
+  expect(resolveCacheDir("/srv/cache")).toBe("/srv/cache");
+  expect(resolveCacheFilePath("main", undefined, "/srv/cache")).toBe(
+    "/srv/cache/index.json"
+  );
+});
+
+test("treats a truncated cache index as a miss with a warning", async () => {
+  const cacheDir = await mkdtemp(join(tmpdir(), "ignore-hub-corrupt-"));
+  try {
+    await writeFile(
+      join(cacheDir, "index.json"),
+      '{"fetchedAt": "2026-',
+      "utf8"
+    );
+
+    const result = await readCacheIndex("main", undefined, cacheDir);
+
+    expect(result.index).toBeNull();
+    expect(result.warning).toContain("is corrupt");
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+});
+
+test("ignores cached bodies that do not match their SHA", async () => {
+  const cacheDir = await mkdtemp(join(tmpdir(), "ignore-hub-corrupt-"));
+  try {
+    const sha = await writeCachedTemplateSource("node_modules/\n", cacheDir);
+    const template = {
+      id: "Node",
+      kind: "language" as const,
+      name: "Node",
+      path: "Node.gitignore",
+      sha,
+    };
+    expect(await readCachedTemplateSource(template, cacheDir)).toBe(
+      "node_modules/\n"
+    );
+
+    await writeFile(join(cacheDir, "bodies", sha.slice(0, 2), sha), "node_mod");
+    expect(await readCachedTemplateSource(template, cacheDir)).toBeNull();
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+});
+
+const registries = resolveTemplateRegistries({
+  ref: "main",
+  registries: [],
+  sourceDir: null,
+});
+
+const nodeTemplate = {
+  id: "Node",
+  kind: "language" as const,
+  name: "Node",
+  path: "Node.gitignore",
+  sha: computeBlobSha("node_modules/\n"),
+};
+
+// Every request fails, as if the machine were offline.
+const unreachableSource: TemplateSource = {
+  describeRevision: (ref) => `unreachable @ ${ref}`,
+  fetchTemplate: () => Promise.reject(new TypeError("fetch failed")),
+  listTemplates: () => Promise.reject(new TypeError("fetch failed")),
+  origin: "https://api.github.com/repos/github/gitignore",
+};
+
+test("writes bodies under their blob SHA and reads them back", async () => {
+  const cacheDir = await mkdtemp(join(tmpdir(), "ignore-hub-bodies-"));
+  try {
+    const sha = await writeCachedTemplateSource("node_modules/\n", cacheDir);
+
+    expect(sha).toBe(nodeTemplate.sha);
+    expect(
+      await readFile(join(cacheDir, "bodies", sha.slice(0, 2), sha), "utf8")
+    ).toBe("node_modules/\n");
+    expect(await readCachedTemplateSource(nodeTemplate, cacheDir)).toBe(
+      "node_modules/\n"
+    );
+    expect(
+      await readCachedTemplateSource(
+        { ...nodeTemplate, sha: computeBlobSha("dist/\n") },
+        cacheDir
+      )
+    ).toBeNull();
+    expect(
+      await readCachedTemplateSource(
+        { ...nodeTemplate, sha: "not-a-sha" },
+        cacheDir
+      )
+    ).toBeNull();
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+});
+
+test("serves a cached body when the network is unreachable", async () => {
+  const cacheDir = await mkdtemp(join(tmpdir(), "ignore-hub-bodies-"));
+  try {
+    await writeCachedTemplateSource("node_modules/\n", cacheDir);
+
+    const source = await loadTemplateSource(nodeTemplate, {
+      cacheDir,
+      offline: false,
+      registries,
+      templateSources: () => unreachableSource,
+    });
+
+    expect(source).toBe("node_modules/\n");
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+});
+
+test("fails offline when a body is not cached", async () => {
+  const cacheDir = await mkdtemp(join(tmpdir(), "ignore-hub-bodies-"));
+  try {
+    const load = loadTemplateSource(nodeTemplate, {
+      cacheDir,
+      offline: true,
+      registries,
+      templateSources: () => unreachableSource,
+    });
+
+    await expect(load).rejects.toThrow(
+      "Template Node is not cached. Run once without --offline to download it."
+    );
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+});
+
+test("loads the index from the cache only when offline", async () => {
+  const cacheDir = await mkdtemp(join(tmpdir(), "ignore-hub-offline-"));
+  try {
+    const load = () =>
+      loadTemplateIndex({
+        cacheDir,
+        maxAgeMs: null,
+        offline: true,
+        refresh: true,
+        registries,
+        templateSources: () => unreachableSource,
+      });
+    await expect(load()).rejects.toThrow(
+      "Run once without --offline to download it."
+    );
+
+    await writeCacheIndex(
+      {
+        ...buildCacheIndex(
+          [{ path: "Node.gitignore", sha: nodeTemplate.sha }],
+          "main"
+        ),
+        origin: unreachableSource.origin,
+      },
+      cacheDir
+    );
+    const result = await load();
+
+    expect(result.source).toBe("cache");
+    expect(result.index.templates.map(({ id }) => id)).toEqual(["Node"]);
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+});
+
+test("retries a failed index request before giving up", async () => {
+  const cacheDir = await mkdtemp(join(tmpdir(), "ignore-hub-retry-"));
+  try {
+    const memory = createMemoryTemplateSource({
+      templates: { "Node.gitignore": "node_modules/\n" },
+    });
+    let attempts = 0;
+    const flaky: TemplateSource = {
+      ...memory,
+      listTemplates: (ref, request) => {
+        attempts += 1;
+        return attempts === 1
+          ? Promise.reject(new GitHubRequestError("unavailable", 503))
+          : memory.listTemplates(ref, request);
+      },
+    };
+
+    const result = await loadTemplateIndex({
+      cacheDir,
+      maxAgeMs: null,
+      offline: false,
+      refresh: true,
+      registries,
+      retry: { retries: 1, timeoutMs: 1000 },
+      templateSources: () => flaky,
+    });
+
+    expect(result.source).toBe("network");
+    expect(attempts).toBe(2);
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdir, mkdtemp, realpath, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkPaths, renderCheckResult } from "../src/cli/check-command";
+import { runDirectGeneration } from "../src/cli/direct-generation";
+import { parseCliOptions } from "../src/cli/parse-args";
+import { createMemoryTemplateSource } from "../src/data/memory-source";
+import type { CliOptions } from "../src/domain/types";
+
+let root: string;
+const originalCwd = process.cwd();
+const originalWrite = process.stdout.write;
+
+// Paths are reported relative to the working directory.
+beforeEach(async () => {
+  root = await realpath(await mkdtemp(join(tmpdir(), "ignore-hub-check-")));
+  process.chdir(root);
+  process.stdout.write = (() => true) as typeof process.stdout.write;
+});
+
+afterEach(async () => {
+  process.stdout.write = originalWrite;
+  process.chdir(originalCwd);
+  await rm(root, { recursive: true, force: true });
+});
+
+const templateSources = () =>
+  createMemoryTemplateSource({
+    templates: {
+      "Go.gitignore": "vendor/\n",
+      "Node.gitignore": "node_modules/\ndist/\n",
+    },
+  });
+
+function optionsFor(args: string[]): CliOptions {
+  return parseCliOptions([
+    ...args,
+    "--output",
+    join(root, ".gitignore"),
+    "--cache-dir",
+    join(root, "cache"),
+  ]).options;
+}
+
+async function check(args: string[], paths: string[]): Promise<string[]> {
+  const results = await checkPaths(optionsFor(args), paths, templateSources);
+  return results.map(renderCheckResult);
+}
+
+test("explains which rule and section ignore each path", async () => {
+  await writeFile(join(root, ".gitignore"), ".env\n");
+  await runDirectGeneration(optionsFor(["-t", "Node"]), templateSources);
+
+  expect(
+    await check([], [".env", "dist/app.js", "node_modules/", "src/a.ts"])
+  ).toEqual([
+    '🚫 .env: ignored by ".env" (.gitignore:1, manual rules)',
+    '🚫 dist/app.js: in dist/, ignored by "dist/" (.gitignore:12, Node)',
+    '🚫 node_modules: ignored by "node_modules/" (.gitignore:11, Node)',
+    "✅ src/a.ts: not ignored",
+  ]);
+});
+
+test("reads nested .gitignore files on the way to the path", async () => {
+  await writeFile(join(root, ".gitignore"), "*.gen\n");
+  await mkdir(join(root, "pkg"));
+  await writeFile(join(root, "pkg", ".gitignore"), "!keep.gen\n");
+
+  expect(await check([], ["pkg/keep.gen", "other.gen"])).toEqual([
+    '✅ pkg/keep.gen: re-included by "!keep.gen" (pkg/.gitignore:1, manual rules)',
+    '🚫 other.gen: ignored by "*.gen" (.gitignore:1, manual rules)',
+  ]);
+});
+
+test("checks against a preview when templates are selected", async () => {
+  await writeFile(join(root, ".gitignore"), ".env\n");
+
+  expect(await check(["-t", "Go"], ["vendor/", ".env"])).toEqual([
+    '🚫 vendor: ignored by "vendor/" (.gitignore (preview):11, Go)',
+    '🚫 .env: ignored by ".env" (.gitignore (preview):1, manual rules)',
+  ]);
+});
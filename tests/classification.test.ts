@@ -1,10 +1,14 @@
 import { expect, test } from "bun:test";
 import {
+  buildCacheIndex,
   classifyRootTemplate,
   classifyTemplatePath,
+  getCommunityCategoryFromPath,
   getTemplateIdFromPath,
   getTemplateNameFromPath,
+  getUnqualifiedTemplateId,
   isSupportedTemplatePath,
+  mergeCacheIndexes,
 } from "../src/domain/classification";
 
 test("classifies Python template as language", () => {
@@ -40,11 +44,64 @@ test("parses names and ids from paths", () => {
   );
 });
 
-test("supports only root and Global template paths", () => {
+test("supports root, Global and community template paths", () => {
   expect(isSupportedTemplatePath("Node.gitignore")).toBe(true);
   expect(isSupportedTemplatePath("Global/Linux.gitignore")).toBe(true);
-  expect(isSupportedTemplatePath("community/JavaScript/Node.gitignore")).toBe(
-    false
+  expect(isSupportedTemplatePath("community/JavaScript/Vue.gitignore")).toBe(
+    true
   );
+  expect(isSupportedTemplatePath("community/README.md")).toBe(false);
+  expect(isSupportedTemplatePath("nested/Node.gitignore")).toBe(false);
   expect(isSupportedTemplatePath("README.md")).toBe(false);
 });
+
+test("classifies community templates with a folder category", () => {
+  expect(classifyTemplatePath("community/JavaScript/Vue.gitignore")).toEqual({
+    id: "community/JavaScript/Vue",
+    name: "Vue",
+    path: "community/JavaScript/Vue.gitignore",
+    kind: "community",
+    category: "JavaScript",
+  });
+  expect(
+    classifyTemplatePath("community/Python/JupyterNotebooks.gitignore")
+  ).toMatchObject({ name: "JupyterNotebooks", category: "Python" });
+  expect(getCommunityCategoryFromPath("community/Misc.gitignore")).toBeNull();
+  expect(classifyTemplatePath("community/Misc.gitignore")).not.toHaveProperty(
+    "category"
+  );
+});
+
+test("keeps plain ids for a single registry", () => {
+  const index = buildCacheIndex(
+    [{ path: "Node.gitignore", sha: "a".repeat(40) }],
+    "main"
+  );
+  expect(mergeCacheIndexes([{ index, source: "github" }])).toBe(index);
+});
+
+test("namespaces ids when merging several registries", () => {
+  const github = buildCacheIndex(
+    [{ path: "Python.gitignore", sha: "a".repeat(40) }],
+    "main"
+  );
+  const acme = buildCacheIndex(
+    [{ path: "Backend.gitignore", sha: "b".repeat(40) }],
+    "local"
+  );
+
+  const merged = mergeCacheIndexes([
+    { index: github, source: "github" },
+    { index: acme, source: "acme" },
+  ]);
+
+  expect(merged.sourceRef).toBe("github@main,acme@local");
+  expect(merged.templates.map((template) => template.id)).toEqual([
+    "acme:Backend",
+    "github:Python",
+  ]);
+  const backend = merged.templates[0];
+  expect(backend?.source).toBe("acme");
+  expect(backend?.name).toBe("Backend");
+  expect(backend && getUnqualifiedTemplateId(backend)).toBe("Backend");
+});
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  applyConfig,
+  loadConfig,
+  PROJECT_CONFIG_FILE_NAME,
+} from "../src/cli/config";
+import { parseCliOptions } from "../src/cli/parse-args";
+
+let root: string;
+let previousConfigHome: string | undefined;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "ignore-hub-config-"));
+  previousConfigHome = process.env.XDG_CONFIG_HOME;
+  process.env.XDG_CONFIG_HOME = join(root, "config-home");
+});
+
+afterEach(async () => {
+  if (previousConfigHome === undefined) {
+    Reflect.deleteProperty(process.env, "XDG_CONFIG_HOME");
+  } else {
+    process.env.XDG_CONFIG_HOME = previousConfigHome;
+  }
+  await rm(root, { recursive: true, force: true });
+});
+
+test("returns an empty config when no files exist", async () => {
+  expect(await loadConfig(root)).toEqual({});
+});
+
+test("resolves sourceDir relative to the project config file", async () => {
+  await writeFile(
+    join(root, PROJECT_CONFIG_FILE_NAME),
+    JSON.stringify({ sourceDir: "vendor/gitignore" })
+  );
+
+  expect(await loadConfig(root)).toEqual({
+    sourceDir: join(root, "vendor/gitignore"),
+  });
+});
+
+test("project config overrides user config", async () => {
+  await mkdir(join(root, "config-home", "ignore-hub"), { recursive: true });
+  await writeFile(
+    join(root, "config-home", "ignore-hub", "config.json"),
+    JSON.stringify({ sourceDir: "/opt/user-templates" })
+  );
+  await writeFile(
+    join(root, PROJECT_CONFIG_FILE_NAME),
+    JSON.stringify({ sourceDir: "/opt/project-templates" })
+  );
+
+  expect((await loadConfig(root)).sourceDir).toBe("/opt/project-templates");
+});
+
+test("rejects malformed config values", async () => {
+  await writeFile(
+    join(root, PROJECT_CONFIG_FILE_NAME),
+    JSON.stringify({ sourceDir: 42 })
+  );
+
+  await expect(loadConfig(root)).rejects.toThrow(
+    '"sourceDir" must be a string'
+  );
+});
+
+test("command line options take precedence over config", () => {
+  const fromConfig = applyConfig(parseCliOptions([]).options, {
+    sourceDir: "/opt/templates",
+  });
+  expect(fromConfig.sourceDir).toBe("/opt/templates");
+
+  const fromFlag = applyConfig(
+    parseCliOptions(["--source-dir", "/srv/gitignore"]).options,
+    { sourceDir: "/opt/templates" }
+  );
+  expect(fromFlag.sourceDir).toBe("/srv/gitignore");
+});
+
+test("parses template registries with priorities", async () => {
+  await writeFile(
+    join(root, PROJECT_CONFIG_FILE_NAME),
+    JSON.stringify({
+      sources: [
+        { name: "github", kind: "github" },
+        { name: "acme", kind: "directory", path: "templates", priority: 10 },
+      ],
+    })
+  );
+
+  expect((await loadConfig(root)).sources).toEqual([
+    { name: "github", kind: "github", priority: 0 },
+    {
+      name: "acme",
+      kind: "directory",
+      path: join(root, "templates"),
+      priority: 10,
+    },
+  ]);
+});
+
+test("rejects duplicate registry names", async () => {
+  await writeFile(
+    join(root, PROJECT_CONFIG_FILE_NAME),
+    JSON.stringify({
+      sources: [
+        { name: "acme", kind: "github" },
+        { name: "acme", kind: "directory", path: "templates" },
+      ],
+    })
+  );
+
+  await expect(loadConfig(root)).rejects.toThrow(
+    'duplicate source name "acme"'
+  );
+});
+
+test("validates the cache max age", async () => {
+  await writeFile(
+    join(root, PROJECT_CONFIG_FILE_NAME),
+    JSON.stringify({ maxAge: "3 days" })
+  );
+
+  await expect(loadConfig(root)).rejects.toThrow('Invalid max age "3 days"');
+});
+
+test("keeps credential-receiving endpoints out of the project config", async () => {
+  await writeFile(
+    join(root, PROJECT_CONFIG_FILE_NAME),
+    JSON.stringify({ apiUrl: "https://collector.example.com" })
+  );
+  await expect(loadConfig(root)).rejects.toThrow(
+    "apiUrl cannot be set in .ignore-hub.json"
+  );
+
+  await writeFile(
+    join(root, PROJECT_CONFIG_FILE_NAME),
+    JSON.stringify({
+      sources: [
+        { name: "m", kind: "github", rawUrl: "https://collector.example.com" },
+      ],
+    })
+  );
+  await expect(loadConfig(root)).rejects.toThrow(
+    "sources[0].rawUrl cannot be set in .ignore-hub.json"
+  );
+
+  await rm(join(root, PROJECT_CONFIG_FILE_NAME));
+  await mkdir(join(root, "config-home", "ignore-hub"), { recursive: true });
+  await writeFile(
+    join(root, "config-home", "ignore-hub", "config.json"),
+    JSON.stringify({ apiUrl: "https://ghe.example.com/api/v3" })
+  );
+  expect((await loadConfig(root)).apiUrl).toBe(
+    "https://ghe.example.com/api/v3"
+  );
+});
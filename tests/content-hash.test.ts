@@ -0,0 +1,15 @@
+import { expect, test } from "bun:test";
+import { computeBlobSha, computeContentHash } from "../src/domain/content-hash";
+
+test("computes git blob SHAs for template bodies", () => {
+  expect(computeBlobSha("")).toBe("e69de29bb2d1d6434b8b29ae775ad8c2e48c5391");
+  expect(computeBlobSha("node_modules/\n")).toBe(
+    "c2658d7d1b31848c3b71960543cb0368e56cd4c7"
+  );
+});
+
+test("prefixes content hashes with their algorithm", () => {
+  expect(computeContentHash("")).toBe(
+    "sha256-e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+  );
+});
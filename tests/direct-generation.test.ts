@@ -0,0 +1,243 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runDirectGeneration } from "../src/cli/direct-generation";
+import { parseCliOptions } from "../src/cli/parse-args";
+import { createMemoryTemplateSource } from "../src/data/memory-source";
+import {
+  parseGeneratedSections,
+  readGeneratedMetadata,
+} from "../src/domain/merge-gitignore";
+import type { CliOptions, TemplateSourceResolver } from "../src/domain/types";
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "ignore-hub-direct-generation-"));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+const source = createMemoryTemplateSource({
+  templates: {
+    "Go.gitignore": "vendor/\n*.test\n",
+    "Node.gitignore": "node_modules/\ndist/\n",
+    "Python.gitignore": "__pycache__/\ndist/\n",
+  },
+});
+
+async function generate(args: string[]): Promise<string> {
+  return (await run(args)).content;
+}
+
+async function run(
+  args: string[],
+  overrides: Partial<CliOptions> = {},
+  templateSources: TemplateSourceResolver = () => source
+): Promise<{ content: string; report: string }> {
+  const output = join(root, ".gitignore");
+  const { options: parsed } = parseCliOptions([
+    ...args,
+    "--output",
+    output,
+    "--cache-dir",
+    join(root, "cache"),
+  ]);
+  const options = { ...parsed, ...overrides };
+
+  const written: string[] = [];
+  const originalWrite = process.stdout.write;
+  process.stdout.write = ((chunk: string) => {
+    written.push(chunk);
+    return true;
+  }) as typeof process.stdout.write;
+  try {
+    await runDirectGeneration(options, templateSources);
+  } finally {
+    process.stdout.write = originalWrite;
+  }
+  return {
+    content: await readFile(output, "utf8"),
+    report: written.join(""),
+  };
+}
+
+function sectionIds(content: string): (string | null)[] {
+  return parseGeneratedSections(content).map((section) => section.id);
+}
+
+test("--add appends templates and keeps existing sections", async () => {
+  await writeFile(join(root, ".gitignore"), "# Manual\n.env\n");
+  await generate(["-t", "Node"]);
+
+  const content = await generate(["--add", "Python,Go"]);
+
+  expect(content.startsWith("# Manual\n.env\n")).toBe(true);
+  expect(sectionIds(content)).toEqual(["Node", "Python", "Go"]);
+  // dist/ stays with Node and is deduped out of Python again.
+  expect(content.split("\n").filter((line) => line === "dist/")).toHaveLength(
+    1
+  );
+});
+
+test("--remove drops a section and restores rules it had deduped", async () => {
+  await generate(["-t", "Node,Python"]);
+
+  const content = await generate(["--remove", "node"]);
+
+  expect(sectionIds(content)).toEqual(["Python"]);
+  expect(parseGeneratedSections(content)[0]?.lines).toContain("dist/");
+});
+
+test("--remove fails for templates that are not in the block", async () => {
+  await generate(["-t", "Node"]);
+
+  await expect(generate(["--remove", "Go"])).rejects.toThrow(
+    "Not in the generated block"
+  );
+});
+
+test("records the ref, repo and templates in the block", async () => {
+  const content = await generate(["-t", "Node,Go", "--ref", "v2"]);
+
+  expect(readGeneratedMetadata(content)).toMatchObject({
+    ref: "v2",
+    repo: "github/gitignore",
+    templates: ["Node", "Go"],
+  });
+});
+
+test("--add stays on the ref recorded in the block", async () => {
+  await generate(["-t", "Node", "--ref", "v2"]);
+
+  const content = await generate(["--add", "Go"]);
+
+  expect(readGeneratedMetadata(content)?.ref).toBe("v2");
+});
+
+test("--add keeps the dedupe mode recorded in the block", async () => {
+  await generate(["-t", "Node", "--dedupe", "off"]);
+
+  const content = await generate(["--add", "Python"]);
+
+  expect(readGeneratedMetadata(content)?.options).toEqual({ dedupe: "off" });
+  expect(content.split("\n").filter((line) => line === "dist/")).toHaveLength(
+    2
+  );
+  const explicit = await generate(["--add", "Go", "--dedupe=exact"]);
+  expect(readGeneratedMetadata(explicit)?.options).toEqual({ dedupe: "exact" });
+});
+
+test("records a mirror host and does not follow it without --api-url", async () => {
+  const mirror = ["--api-url", "https://ghe.example.com/api/v3"];
+  const content = await generate(["-t", "Node", ...mirror]);
+  expect(readGeneratedMetadata(content)?.host).toBe("ghe.example.com");
+
+  await expect(generate(["--add", "Go"])).rejects.toThrow(
+    "The generated block was made from ghe.example.com, but ignore-hub is set up for github.com."
+  );
+  expect(sectionIds(await generate(["--add", "Go", ...mirror]))).toEqual([
+    "Node",
+    "Go",
+  ]);
+});
+
+test("an explicit --ref main wins over the recorded ref", async () => {
+  await generate(["-t", "Node", "--ref", "v2"]);
+
+  const content = await generate(["--add", "Go", "--ref", "main"]);
+
+  expect(readGeneratedMetadata(content)?.ref).toBe("main");
+});
+
+test("--add with several registries stays on the GitHub registry's ref", async () => {
+  await mkdir(join(root, "acme"));
+  await writeFile(join(root, "acme", "Acme.gitignore"), "acme.lock\n");
+  const registries: CliOptions["registries"] = [
+    { kind: "github", name: "github", priority: 0 },
+    { kind: "directory", name: "acme", path: join(root, "acme"), priority: 10 },
+  ];
+  const requestedRefs: string[] = [];
+  const trackingSource: TemplateSourceResolver = () => ({
+    ...source,
+    listTemplates: (ref, request) => {
+      requestedRefs.push(ref);
+      return source.listTemplates(ref, request);
+    },
+  });
+  await run(["-t", "Node"], { registries }, trackingSource);
+
+  const { content } = await run(
+    ["--add", "Acme", "--refresh"],
+    { registries },
+    trackingSource
+  );
+
+  expect(readGeneratedMetadata(content)?.ref).toBe("main");
+  expect(sectionIds(content)).toEqual(["github:Node", "acme:Acme"]);
+  expect(new Set(requestedRefs)).toEqual(new Set(["main"]));
+});
+
+test("keeps hand edits inside the block across regeneration", async () => {
+  await generate(["-t", "Node"]);
+  const output = join(root, ".gitignore");
+  const edited = (await readFile(output, "utf8")).replace(
+    "\ndist/\n",
+    "\n# dist/\n"
+  );
+  await writeFile(output, edited);
+
+  const content = await generate(["--add", "Go"]);
+
+  expect(content).toContain("# dist/");
+  expect(content).toContain("vendor/");
+  expect(content.split("\n")).not.toContain("dist/");
+});
+
+test("fails the run when hand edits conflict with upstream", async () => {
+  await generate(["-t", "Node"]);
+  const output = join(root, ".gitignore");
+  await writeFile(
+    output,
+    (await readFile(output, "utf8")).replace("\ndist/\n", "\n# dist/\n")
+  );
+  // Without the cached base every difference is a conflict.
+  await rm(join(root, "cache", "blocks"), { recursive: true, force: true });
+
+  const warnings: string[] = [];
+  const originalWrite = process.stderr.write;
+  process.stderr.write = ((chunk: string) => {
+    warnings.push(chunk);
+    return true;
+  }) as typeof process.stderr.write;
+  try {
+    await generate(["--add", "Go", "--dry-run"]);
+    expect(process.exitCode).toBe(1);
+    expect(warnings.join("")).not.toContain("Resolve the <<<<<<< markers");
+
+    process.exitCode = 0;
+    const content = await generate(["--add", "Go"]);
+    expect(process.exitCode).toBe(1);
+    expect(content).toContain("<<<<<<< local");
+    expect(warnings.join("")).toContain("Resolve the <<<<<<< markers");
+  } finally {
+    process.stderr.write = originalWrite;
+    process.exitCode = 0;
+  }
+});
+
+test("--dry-run --impact reports newly ignored paths without writing", async () => {
+  await writeFile(join(root, ".gitignore"), "# Manual\n.env\n");
+  await mkdir(join(root, "vendor"));
+
+  const { content, report } = await run(["-t", "Go", "--dry-run", "--impact"]);
+
+  expect(content).toBe("# Manual\n.env\n");
+  expect(report).toContain(
+    `🧪 IgnoreHub: dry run, ${join(root, ".gitignore")} would be rewritten`
+  );
+  expect(report).toContain("🆕 Newly ignored: 1\n  Go\n    vendor/\n");
+});
@@ -0,0 +1,28 @@
+import { expect, test } from "bun:test";
+import {
+  formatDuration,
+  parseMaxAge,
+  resolveCacheMaxAgeMs,
+} from "../src/domain/duration";
+
+test("parses max ages with units", () => {
+  expect(parseMaxAge("30m")).toBe(30 * 60 * 1000);
+  expect(parseMaxAge("12h")).toBe(12 * 60 * 60 * 1000);
+  expect(parseMaxAge("2w")).toBe(14 * 24 * 60 * 60 * 1000);
+  expect(parseMaxAge("0")).toBe(0);
+  expect(parseMaxAge("never")).toBeNull();
+  expect(resolveCacheMaxAgeMs(null)).toBe(7 * 24 * 60 * 60 * 1000);
+});
+
+test("rejects max ages without a unit", () => {
+  expect(() => parseMaxAge("7")).toThrow(
+    'Invalid max age "7" (expected e.g. 30m, 12h, 7d, 2w or never)'
+  );
+});
+
+test("formats ages with the largest whole unit", () => {
+  expect(formatDuration(45 * 24 * 60 * 60 * 1000)).toBe("6w");
+  expect(formatDuration(3 * 24 * 60 * 60 * 1000)).toBe("3d");
+  expect(formatDuration(90 * 60 * 1000)).toBe("1h");
+  expect(formatDuration(10 * 1000)).toBe("<1m");
+});
@@ -0,0 +1,166 @@
+import { expect, test } from "bun:test";
+import {
+  classifyFetchError,
+  fetchTemplatesWithSource,
+  renderTemplateFetchReport,
+  requestWithRetry,
+} from "../src/data/fetch-pipeline";
+import {
+  GitHubRateLimitError,
+  GitHubRequestError,
+} from "../src/data/github-client";
+import { ProxyError } from "../src/data/proxy";
+import type { TemplateMeta } from "../src/domain/types";
+
+function template(name: string): TemplateMeta {
+  return { id: name, kind: "language", name, path: `${name}.gitignore` };
+}
+
+const options = { concurrency: 2, retries: 2, timeoutMs: 1000 };
+
+test("keeps selection order while downloading in parallel", async () => {
+  let active = 0;
+  let peak = 0;
+  const report = await fetchTemplatesWithSource(
+    [template("A"), template("B"), template("C"), template("D")],
+    async (meta) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) =>
+        setTimeout(resolve, meta.name === "A" ? 20 : 1)
+      );
+      active -= 1;
+      return `# ${meta.name}`;
+    },
+    options,
+    0
+  );
+
+  expect(peak).toBe(2);
+  expect(report.failures).toEqual([]);
+  expect(report.fetched.map(({ source }) => source)).toEqual([
+    "# A",
+    "# B",
+    "# C",
+    "# D",
+  ]);
+});
+
+test("retries server errors and reports the rest as partial success", async () => {
+  const calls = new Map<string, number>();
+  const report = await fetchTemplatesWithSource(
+    [template("Flaky"), template("Broken"), template("Missing")],
+    (meta) => {
+      const count = (calls.get(meta.name) ?? 0) + 1;
+      calls.set(meta.name, count);
+      if (meta.name === "Flaky" && count < 2) {
+        return Promise.reject(new GitHubRequestError("unavailable", 503));
+      }
+      if (meta.name === "Broken") {
+        return Promise.reject(new GitHubRequestError("unavailable", 502));
+      }
+      if (meta.name === "Missing") {
+        return Promise.reject(new GitHubRequestError("not found", 404));
+      }
+      return Promise.resolve(`# ${meta.name}`);
+    },
+    options,
+    0
+  );
+
+  expect(report.fetched.map(({ meta }) => meta.name)).toEqual(["Flaky"]);
+  expect(calls.get("Broken")).toBe(3);
+  expect(calls.get("Missing")).toBe(1);
+  expect(renderTemplateFetchReport(report)).toBe(
+    "Fetched 1 of 3 template(s). Failed: Broken (HTTP 502 after 3 attempts), Missing (HTTP 404)."
+  );
+});
+
+test("aborts slow downloads through the per-request signal", async () => {
+  const report = await fetchTemplatesWithSource(
+    [template("Slow")],
+    (_meta, signal) =>
+      new Promise((_resolve, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason));
+      }),
+    { concurrency: 1, retries: 0, timeoutMs: 10 },
+    0
+  );
+
+  expect(report.failures[0]?.reason).toBe("timeout");
+});
+
+test("classifies network, DNS and rate limit failures", () => {
+  const dnsError = Object.assign(new TypeError("getaddrinfo ENOTFOUND"), {
+    code: "ENOTFOUND",
+  });
+
+  expect(classifyFetchError(dnsError)).toEqual({
+    reason: "dns",
+    retryable: true,
+  });
+  expect(classifyFetchError(new TypeError("fetch failed")).reason).toBe(
+    "network"
+  );
+  expect(
+    classifyFetchError(new GitHubRateLimitError("limited", 0, null))
+  ).toEqual({ reason: "rate-limit", retryable: false });
+  expect(classifyFetchError(new Error("not cached")).retryable).toBe(false);
+  expect(
+    classifyFetchError(new ProxyError("rejected", "http://corp:8080/", 407))
+  ).toEqual({ reason: "proxy", retryable: false, status: 407 });
+  expect(
+    classifyFetchError(new ProxyError("dropped", "http://corp:8080/", null))
+  ).toEqual({ reason: "proxy", retryable: true });
+});
+
+test("classifies DNS failures the way Bun and Node report them", async () => {
+  const bunError = await fetch("http://ignore-hub.invalid/").then(
+    () => null,
+    (error: unknown) => error
+  );
+  const nodeError = new TypeError("fetch failed", {
+    cause: Object.assign(new Error("getaddrinfo EAI_AGAIN github.com"), {
+      code: "EAI_AGAIN",
+    }),
+  });
+
+  expect(classifyFetchError(bunError).reason).toBe("dns");
+  expect(classifyFetchError(nodeError)).toEqual({
+    reason: "dns",
+    retryable: true,
+  });
+});
+
+test("retries single requests and aborts them after the timeout", async () => {
+  let calls = 0;
+  const value = await requestWithRetry(
+    () => {
+      calls += 1;
+      return calls < 3
+        ? Promise.reject(new GitHubRequestError("unavailable", 503))
+        : Promise.resolve("tree");
+    },
+    options,
+    0
+  );
+  expect(value).toBe("tree");
+  expect(calls).toBe(3);
+
+  const slow = requestWithRetry(
+    (signal) =>
+      new Promise((_resolve, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason));
+      }),
+    { retries: 1, timeoutMs: 10 },
+    0
+  );
+  await expect(slow).rejects.toThrow();
+  await expect(
+    requestWithRetry(
+      () => Promise.reject(new GitHubRequestError("not found", 404)),
+      options,
+      0
+    )
+  ).rejects.toThrow("not found");
+});
@@ -0,0 +1,166 @@
+import { afterEach, expect, test } from "bun:test";
+import {
+  fetchTemplateSource,
+  GitHubRateLimitError,
+  resolveGitHubEndpoint,
+  resolveGitHubToken,
+  resolveRequestToken,
+} from "../src/data/github-client";
+
+const originalFetch = globalThis.fetch;
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  process.env = { ...originalEnv };
+});
+
+function mockFetch(
+  handler: (url: string, init: RequestInit | undefined) => Response
+): Headers[] {
+  const seen: Headers[] = [];
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+    seen.push(new Headers(init?.headers));
+    return Promise.resolve(handler(String(input), init));
+  }) as typeof fetch;
+  return seen;
+}
+
+test("prefers GITHUB_TOKEN over GH_TOKEN", () => {
+  process.env.GITHUB_TOKEN = "";
+  process.env.GH_TOKEN = "gh-token";
+  expect(resolveGitHubToken()).toBe("gh-token");
+
+  process.env.GITHUB_TOKEN = "github-token";
+  expect(resolveGitHubToken()).toBe("github-token");
+});
+
+test("sends the token and validators and reports 304 as not modified", async () => {
+  process.env.GITHUB_TOKEN = "secret";
+  const seen = mockFetch(() => new Response(null, { status: 304 }));
+
+  const result = await fetchTemplateSource("Node.gitignore", "main", {
+    validators: { etag: '"abc"' },
+  });
+
+  expect(result.notModified).toBe(true);
+  expect(seen[0]?.get("authorization")).toBe("Bearer secret");
+  expect(seen[0]?.get("if-none-match")).toBe('"abc"');
+});
+
+test("returns fresh validators with the body", async () => {
+  mockFetch(
+    () =>
+      new Response("node_modules/\n", {
+        headers: { etag: '"def"', "last-modified": "Mon, 01 Jan 2024" },
+      })
+  );
+
+  const result = await fetchTemplateSource("Node.gitignore");
+
+  expect(result).toEqual({
+    notModified: false,
+    validators: { etag: '"def"', lastModified: "Mon, 01 Jan 2024" },
+    value: "node_modules/\n",
+  });
+});
+
+test("turns throttled responses into rate limit errors", async () => {
+  Reflect.deleteProperty(process.env, "GITHUB_TOKEN");
+  Reflect.deleteProperty(process.env, "GH_TOKEN");
+  mockFetch(
+    () =>
+      new Response("", {
+        status: 403,
+        headers: {
+          "x-ratelimit-remaining": "0",
+          "x-ratelimit-reset": "1700000000",
+        },
+      })
+  );
+
+  const error = await fetchTemplateSource("Node.gitignore").catch(
+    (caught: unknown) => caught
+  );
+
+  expect(error).toBeInstanceOf(GitHubRateLimitError);
+  const rateLimitError = error as GitHubRateLimitError;
+  expect(rateLimitError.remaining).toBe(0);
+  expect(rateLimitError.resetAt?.getTime()).toBe(1_700_000_000_000);
+  expect(rateLimitError.message).toContain("0 requests remaining");
+  expect(rateLimitError.message).toContain("GITHUB_TOKEN");
+});
+
+test("keeps plain failures as ordinary errors", async () => {
+  mockFetch(() => new Response("", { status: 404 }));
+
+  await expect(fetchTemplateSource("Missing.gitignore")).rejects.toThrow(
+    "Failed to fetch template Missing.gitignore (404)"
+  );
+});
+
+test("derives GitHub Enterprise raw URLs from the /api/v3 layout", () => {
+  process.env.IGNORE_HUB_API_URL = "https://ghe.example.com/api/v3/";
+  process.env.IGNORE_HUB_REPO = "platform/gitignore";
+
+  expect(resolveGitHubEndpoint()).toEqual({
+    apiUrl: "https://ghe.example.com/api/v3",
+    owner: "platform",
+    rawUrl: "https://ghe.example.com/raw",
+    repo: "gitignore",
+  });
+  expect(
+    resolveGitHubEndpoint({ rawUrl: "https://mirror.internal/gh" }).rawUrl
+  ).toBe("https://mirror.internal/gh");
+  expect(() => resolveGitHubEndpoint({ repo: "gitignore" })).toThrow(
+    'Invalid template repository "gitignore" (expected owner/name)'
+  );
+});
+
+test("requests templates from the configured mirror", async () => {
+  const urls: string[] = [];
+  globalThis.fetch = ((input: string | URL | Request) => {
+    urls.push(String(input));
+    return Promise.resolve(new Response("dist/\n"));
+  }) as typeof fetch;
+
+  await fetchTemplateSource("Node.gitignore", "v2", {
+    endpoint: resolveGitHubEndpoint({
+      apiUrl: "https://ghe.example.com/api/v3",
+      repo: "platform/gitignore",
+    }),
+  });
+
+  expect(urls).toEqual([
+    "https://ghe.example.com/raw/platform/gitignore/v2/Node.gitignore",
+  ]);
+});
+
+test("sends GITHUB_TOKEN to github.com only and IGNORE_HUB_TOKEN elsewhere", async () => {
+  process.env.GITHUB_TOKEN = "github-secret";
+  Reflect.deleteProperty(process.env, "IGNORE_HUB_TOKEN");
+  const seen = mockFetch(() => new Response("dist/\n"));
+  const mirror = resolveGitHubEndpoint({
+    apiUrl: "https://ghe.example.com/api/v3",
+  });
+
+  await fetchTemplateSource("Node.gitignore", "main", { endpoint: mirror });
+  expect(seen[0]?.get("authorization")).toBeNull();
+
+  process.env.IGNORE_HUB_TOKEN = "mirror-secret";
+  await fetchTemplateSource("Node.gitignore", "main", { endpoint: mirror });
+  expect(seen[1]?.get("authorization")).toBe("Bearer mirror-secret");
+
+  expect(resolveRequestToken("https://api.github.com/repos/a/b")).toBe(
+    "github-secret"
+  );
+  expect(resolveRequestToken("https://raw.githubusercontent.com/a/b")).toBe(
+    "github-secret"
+  );
+  expect(resolveRequestToken("http://api.github.com/repos/a/b")).toBe(
+    "mirror-secret"
+  );
+  expect(resolveRequestToken("https://api.github.com.evil.test/x")).toBe(
+    "mirror-secret"
+  );
+});
@@ -0,0 +1,115 @@
+import { expect, test } from "bun:test";
+import {
+  matchGitignorePath,
+  parseGitignoreRules,
+} from "../src/domain/gitignore-matcher";
+
+function decide(
+  content: string,
+  path: string,
+  isDirectory = false
+): string | null {
+  const match = matchGitignorePath(
+    parseGitignoreRules(content),
+    path,
+    isDirectory
+  );
+  if (!match) {
+    return null;
+  }
+  return `${match.ignored ? "ignored" : "included"} by ${match.rule.rule}`;
+}
+
+test("matches patterns without a slash at any depth", () => {
+  expect(decide("*.log\n", "app.log")).toBe("ignored by *.log");
+  expect(decide("*.log\n", "logs/deep/app.log")).toBe("ignored by *.log");
+  expect(decide("*.log\n", "app.txt")).toBeNull();
+});
+
+test("anchors patterns with a leading or middle slash", () => {
+  expect(decide("/build\n", "build")).toBe("ignored by /build");
+  expect(decide("/build\n", "src/build")).toBeNull();
+  expect(decide("docs/*.md\n", "docs/a.md")).toBe("ignored by docs/*.md");
+  expect(decide("docs/*.md\n", "docs/api/a.md")).toBeNull();
+  expect(decide("docs/*.md\n", "site/docs/a.md")).toBeNull();
+});
+
+test("supports ** in leading, middle and trailing position", () => {
+  expect(decide("**/cache/x\n", "cache/x")).toBe("ignored by **/cache/x");
+  expect(decide("**/cache/x\n", "a/b/cache/x")).toBe("ignored by **/cache/x");
+  expect(decide("a/**/b\n", "a/b")).toBe("ignored by a/**/b");
+  expect(decide("a/**/b\n", "a/x/y/b")).toBe("ignored by a/**/b");
+  expect(decide("out/**\n", "out/x/y")).toBe("ignored by out/**");
+  expect(decide("out/**\n", "out", true)).toBeNull();
+});
+
+test("only matches directory rules against directories", () => {
+  expect(decide("dist/\n", "dist", true)).toBe("ignored by dist/");
+  expect(decide("dist/\n", "dist")).toBeNull();
+  expect(decide("dist/\n", "pkg/dist/index.js")).toBe("ignored by dist/");
+});
+
+test("lets the last matching rule win", () => {
+  const content = "*.log\n!keep.log\n";
+  expect(decide(content, "keep.log")).toBe("included by !keep.log");
+  expect(decide(`${content}*.log\n`, "keep.log")).toBe("ignored by *.log");
+});
+
+test("cannot re-include files inside an excluded directory", () => {
+  const rules = parseGitignoreRules("logs/\n!logs/keep.log\n");
+  expect(matchGitignorePath(rules, "logs/keep.log", false)).toMatchObject({
+    ignored: true,
+    parent: "logs",
+    rule: { lineNumber: 1, rule: "logs/" },
+  });
+});
+
+test("handles wildcards, brackets and escapes", () => {
+  expect(decide("?.txt\n", "a.txt")).toBe("ignored by ?.txt");
+  expect(decide("?.txt\n", "ab.txt")).toBeNull();
+  expect(decide("[!a]x\n", "bx")).toBe("ignored by [!a]x");
+  expect(decide("[!a]x\n", "ax")).toBeNull();
+  expect(decide("[[:digit:]]*.tmp\n", "1.tmp")).toBe(
+    "ignored by [[:digit:]]*.tmp"
+  );
+  expect(decide("\\#notes\n", "#notes")).toBe("ignored by \\#notes");
+  expect(decide("foo\\ \n", "foo ")).toBe("ignored by foo\\ ");
+  expect(decide("foo  \n", "foo")).toBe("ignored by foo");
+  expect(decide("foo\t\n", "foo")).toBeNull();
+  expect(decide(" foo\n", "foo")).toBeNull();
+  expect(decide(" foo\n", " foo")).toBe("ignored by  foo");
+  expect(decide("[abc\n", "[abc")).toBeNull();
+});
+
+test("records line numbers and generated sections", () => {
+  const rules = parseGitignoreRules(
+    [
+      ".env",
+      "### IGNORE-HUB GENERATED START",
+      "### framework: Node [Node]",
+      "node_modules/",
+      "### IGNORE-HUB GENERATED END",
+    ].join("\n")
+  );
+  expect(
+    rules.map(({ lineNumber, rule, section }) => ({
+      lineNumber,
+      rule,
+      section,
+    }))
+  ).toEqual([
+    { lineNumber: 1, rule: ".env", section: null },
+    { lineNumber: 4, rule: "node_modules/", section: "Node" },
+  ]);
+});
+
+test("scopes nested .gitignore rules to their directory", () => {
+  const rules = [
+    ...parseGitignoreRules("*.gen\n"),
+    ...parseGitignoreRules("!keep.gen\n/local\n", { baseDir: "pkg" }),
+  ];
+  expect(matchGitignorePath(rules, "pkg/keep.gen", false)?.ignored).toBe(false);
+  expect(matchGitignorePath(rules, "keep.gen", false)?.ignored).toBe(true);
+  expect(matchGitignorePath(rules, "pkg/local", false)?.ignored).toBe(true);
+  expect(matchGitignorePath(rules, "pkg/sub/local", false)).toBeNull();
+});
@@ -0,0 +1,69 @@
+import { expect, test } from "bun:test";
+import {
+  canonicalizeGitignoreRule,
+  parseDedupeMode,
+  parseGitignorePattern,
+  trimRuleLine,
+} from "../src/domain/gitignore-pattern";
+
+test("parses negation, anchoring and directory-only patterns", () => {
+  expect(parseGitignorePattern("!/build/")).toEqual({
+    anchored: true,
+    body: "build",
+    directoryOnly: true,
+    negated: true,
+  });
+  expect(parseGitignorePattern("*.log")).toEqual({
+    anchored: false,
+    body: "*.log",
+    directoryOnly: false,
+    negated: false,
+  });
+  expect(parseGitignorePattern("docs/*.md")?.anchored).toBe(true);
+  expect(parseGitignorePattern("# comment")).toBeNull();
+  expect(parseGitignorePattern("   ")).toBeNull();
+});
+
+test("keeps escaped trailing spaces", () => {
+  expect(trimRuleLine("foo  ")).toBe("foo");
+  expect(trimRuleLine("foo\\ ")).toBe("foo\\ ");
+  expect(trimRuleLine("foo\\  ")).toBe("foo\\ ");
+  expect(trimRuleLine("foo\\\\ ")).toBe("foo\\\\");
+});
+
+test("keeps tabs and leading spaces, as git does", () => {
+  expect(trimRuleLine("foo\t")).toBe("foo\t");
+  expect(trimRuleLine("foo\t ")).toBe("foo\t");
+  expect(trimRuleLine(" foo")).toBe(" foo");
+  expect(canonicalizeGitignoreRule("foo\t")).not.toBe("foo");
+  expect(canonicalizeGitignoreRule(" foo")).not.toBe("foo");
+  expect(parseGitignorePattern(" foo")?.body).toBe(" foo");
+});
+
+test("gives equivalent patterns one canonical form", () => {
+  expect(canonicalizeGitignoreRule("**/node_modules/")).toBe("node_modules/");
+  expect(canonicalizeGitignoreRule("/**/node_modules/")).toBe("node_modules/");
+  expect(canonicalizeGitignoreRule("**/**/*.log")).toBe("*.log");
+  expect(canonicalizeGitignoreRule("/docs/build")).toBe("docs/build");
+  expect(canonicalizeGitignoreRule("foo**")).toBe("foo*");
+  expect(canonicalizeGitignoreRule("a/***/b")).toBe("a/**/b");
+  expect(canonicalizeGitignoreRule("\\d\\.txt")).toBe("d.txt");
+  expect(canonicalizeGitignoreRule("!**/keep.me")).toBe("!keep.me");
+});
+
+test("keeps patterns that mean different things apart", () => {
+  expect(canonicalizeGitignoreRule("/node_modules/")).toBe("/node_modules/");
+  expect(canonicalizeGitignoreRule("node_modules")).toBe("node_modules");
+  expect(canonicalizeGitignoreRule("**/docs/build")).toBe("**/docs/build");
+  expect(canonicalizeGitignoreRule("\\!important")).toBe("\\!important");
+  expect(canonicalizeGitignoreRule("\\#notes")).toBe("\\#notes");
+  expect(canonicalizeGitignoreRule("\\*.txt")).toBe("\\*.txt");
+  expect(canonicalizeGitignoreRule("foo\\ ")).toBe("foo\\ ");
+});
+
+test("rejects unknown dedupe modes", () => {
+  expect(parseDedupeMode("exact")).toBe("exact");
+  expect(() => parseDedupeMode("fuzzy")).toThrow(
+    'Invalid dedupe mode "fuzzy" (expected exact, semantic or off)'
+  );
+});
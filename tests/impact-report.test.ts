@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import {
+  collectGitignoreImpact,
+  renderImpactReport,
+} from "../src/cli/impact-report";
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "ignore-hub-impact-"));
+  for (const path of [
+    ".env",
+    ".git/HEAD",
+    "app.log",
+    "dist/index.js",
+    "node_modules/react/index.js",
+    "pkg/.gitignore",
+    "pkg/out.tmp",
+    "src/index.ts",
+  ]) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), "");
+  }
+  await writeFile(join(root, "pkg", ".gitignore"), "*.tmp\n");
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+const NEXT_CONTENT = [
+  ".env",
+  "### IGNORE-HUB GENERATED START",
+  "### framework: Node [Node]",
+  "node_modules/",
+  "dist/",
+  "### IGNORE-HUB GENERATED END",
+].join("\n");
+
+test("classifies paths by how the new .gitignore changes them", async () => {
+  const { entries, truncated } = await collectGitignoreImpact(
+    root,
+    "*.log\n.env\n",
+    NEXT_CONTENT
+  );
+
+  expect(truncated).toBe(false);
+  expect(entries).toEqual([
+    {
+      change: "unchanged",
+      isDirectory: false,
+      path: ".env",
+      section: "manual rules",
+    },
+    {
+      change: "no-longer-ignored",
+      isDirectory: false,
+      path: "app.log",
+      section: "manual rules",
+    },
+    {
+      change: "newly-ignored",
+      isDirectory: true,
+      path: "dist",
+      section: "Node",
+    },
+    {
+      change: "newly-ignored",
+      isDirectory: true,
+      path: "node_modules",
+      section: "Node",
+    },
+    {
+      change: "unchanged",
+      isDirectory: false,
+      path: "pkg/out.tmp",
+      section: "manual rules",
+    },
+  ]);
+});
+
+test("groups the report by change and section", async () => {
+  const report = await collectGitignoreImpact(root, null, NEXT_CONTENT);
+
+  expect(renderImpactReport(report)).toEqual([
+    "🆕 Newly ignored: 3",
+    "  manual rules",
+    "    .env",
+    "  Node",
+    "    dist/",
+    "    node_modules/",
+    "↩️  No longer ignored: 0",
+    "💤 Still ignored: 1",
+    "  manual rules",
+    "    pkg/out.tmp",
+  ]);
+});
+
+test("walks into directories the new rules no longer ignore", async () => {
+  await writeFile(join(root, "dist", "main.o"), "");
+
+  const { entries } = await collectGitignoreImpact(
+    root,
+    "dist/\n",
+    "dist/*.o\n"
+  );
+
+  expect(entries.map(({ change, path }) => `${change} ${path}`)).toEqual([
+    "no-longer-ignored dist",
+    "unchanged dist/main.o",
+    "unchanged pkg/out.tmp",
+  ]);
+});
+
+test("stops walking after the path limit", async () => {
+  const report = await collectGitignoreImpact(root, null, NEXT_CONTENT, 2);
+
+  expect(report.truncated).toBe(true);
+  expect(renderImpactReport(report).at(-1)).toBe(
+    "✂️  Stopped early in a large tree; the lists are incomplete."
+  );
+});
@@ -0,0 +1,64 @@
+import { expect, test } from "bun:test";
+import {
+  hasConflictMarkers,
+  mergeLines,
+  mergeLinesWithoutBase,
+} from "../src/domain/line-merge";
+
+const BASE = ["a", "b", "c", "d"];
+
+test("takes changes that only one side made", () => {
+  expect(
+    mergeLines(BASE, ["a", "B", "c", "d"], ["a", "b", "c", "d", "e"])
+  ).toEqual({ conflicts: 0, lines: ["a", "B", "c", "d", "e"] });
+  expect(mergeLines(BASE, ["a", "c", "d"], BASE)).toEqual({
+    conflicts: 0,
+    lines: ["a", "c", "d"],
+  });
+});
+
+test("merges identical changes on both sides", () => {
+  expect(mergeLines(BASE, ["a", "x", "c", "d"], ["a", "x", "c", "d"])).toEqual({
+    conflicts: 0,
+    lines: ["a", "x", "c", "d"],
+  });
+});
+
+test("marks overlapping changes as conflicts", () => {
+  const result = mergeLines(
+    BASE,
+    ["a", "local", "c", "d"],
+    ["a", "up", "c", "d"]
+  );
+
+  expect(result.conflicts).toBe(1);
+  expect(result.lines).toEqual([
+    "a",
+    "<<<<<<< local",
+    "local",
+    "=======",
+    "up",
+    ">>>>>>> upstream",
+    "c",
+    "d",
+  ]);
+  expect(hasConflictMarkers(result.lines)).toBe(true);
+});
+
+test("marks every difference as a conflict without a base", () => {
+  expect(mergeLinesWithoutBase(["a", "x", "c"], ["a", "c", "d"])).toEqual({
+    conflicts: 2,
+    lines: [
+      "a",
+      "<<<<<<< local",
+      "x",
+      "=======",
+      ">>>>>>> upstream",
+      "c",
+      "<<<<<<< local",
+      "=======",
+      "d",
+      ">>>>>>> upstream",
+    ],
+  });
+});
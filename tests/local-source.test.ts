@@ -0,0 +1,98 @@
+import { expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { loadTemplateIndex, loadTemplateSource } from "../src/data/cache-store";
+import {
+  readLocalTemplateEntries,
+  readLocalTemplateSource,
+} from "../src/data/local-source";
+import { createGitHubTemplateSources } from "../src/data/template-source";
+import { computeBlobSha } from "../src/domain/content-hash";
+
+async function createSourceDir(files: Record<string, string>): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), "ignore-hub-source-"));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const fullPath = join(root, relativePath);
+    await mkdir(dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, content);
+  }
+  return root;
+}
+
+const FILES = {
+  "Python.gitignore": "__pycache__/\n",
+  "Global/macOS.gitignore": ".DS_Store\n",
+  "community/JavaScript/Vue.gitignore": ".nuxt\n",
+  "README.md": "# templates\n",
+  ".git/hooks/Sample.gitignore": "ignored\n",
+  "nested/Deep.gitignore": "deep\n",
+};
+
+test("walks a local directory with the GitHub path rules", async () => {
+  const root = await createSourceDir(FILES);
+
+  try {
+    expect(await readLocalTemplateEntries(root)).toEqual([
+      {
+        path: "community/JavaScript/Vue.gitignore",
+        sha: computeBlobSha(".nuxt\n"),
+      },
+      { path: "Global/macOS.gitignore", sha: computeBlobSha(".DS_Store\n") },
+      { path: "Python.gitignore", sha: computeBlobSha("__pycache__/\n") },
+    ]);
+    expect(await readLocalTemplateSource(root, "Global/macOS.gitignore")).toBe(
+      ".DS_Store\n"
+    );
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("loads the template index and bodies from a source directory", async () => {
+  const root = await createSourceDir(FILES);
+
+  try {
+    const result = await loadTemplateIndex({
+      cacheDir: join(root, ".cache"),
+      maxAgeMs: null,
+      refresh: false,
+      offline: true,
+      templateSources: createGitHubTemplateSources(),
+      registries: [
+        { kind: "directory", name: "local", path: root, priority: 0 },
+      ],
+    });
+    expect(result.source).toBe("local");
+    expect(result.index.templates.map((template) => template.id)).toEqual([
+      "community/JavaScript/Vue",
+      "Global/macOS",
+      "Python",
+    ]);
+
+    const python = result.index.templates.find(
+      (template) => template.id === "Python"
+    );
+    if (!python) {
+      throw new Error("expected Python template");
+    }
+    expect(
+      await loadTemplateSource(python, {
+        cacheDir: join(root, ".cache"),
+        offline: true,
+        templateSources: createGitHubTemplateSources(),
+        registries: [
+          { kind: "directory", name: "local", path: root, priority: 0 },
+        ],
+      })
+    ).toBe("__pycache__/\n");
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("reports a missing source directory", async () => {
+  await expect(
+    readLocalTemplateEntries(join(tmpdir(), "ignore-hub-missing-source-dir"))
+  ).rejects.toThrow("Template source directory not found");
+});
@@ -0,0 +1,122 @@
+import { expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  buildTemplateLockfile,
+  describeLockedTemplateDrift,
+  readTemplateLockfile,
+  resolveLockfilePath,
+  writeTemplateLockfile,
+} from "../src/data/lockfile";
+import { computeContentHash } from "../src/domain/content-hash";
+import type { TemplateWithSource } from "../src/domain/types";
+
+const TEMPLATES: TemplateWithSource[] = [
+  {
+    meta: {
+      id: "Node",
+      name: "Node",
+      path: "Node.gitignore",
+      kind: "framework",
+    },
+    source: "node_modules/\n",
+  },
+];
+
+test("records blob SHA and content hash for each template", () => {
+  const lockfile = buildTemplateLockfile({
+    dedupe: "semantic",
+    output: "node_modules/\n",
+    sourceRef: "main",
+    templates: TEMPLATES,
+    includeWatermark: true,
+    useSimpleSectionSeparator: false,
+  });
+
+  expect(lockfile.sourceRef).toBe("main");
+  expect(lockfile.templates).toEqual([
+    {
+      id: "Node",
+      name: "Node",
+      path: "Node.gitignore",
+      kind: "framework",
+      sha: "c2658d7d1b31848c3b71960543cb0368e56cd4c7",
+      contentHash: computeContentHash("node_modules/\n"),
+    },
+  ]);
+  expect(lockfile.outputHash).toBe(computeContentHash("node_modules/\n"));
+});
+
+test("reports drift when a locked body changes", () => {
+  const lockfile = buildTemplateLockfile({
+    dedupe: "semantic",
+    output: "",
+    sourceRef: "main",
+    templates: TEMPLATES,
+    includeWatermark: true,
+    useSimpleSectionSeparator: false,
+  });
+  const [locked] = lockfile.templates;
+  if (!locked) {
+    throw new Error("expected a locked template");
+  }
+
+  expect(describeLockedTemplateDrift(locked, "node_modules/\n")).toBeNull();
+  expect(describeLockedTemplateDrift(locked, "dist/\n")).toContain(
+    "Node: expected blob"
+  );
+});
+
+test("lockfile round-trips next to the output file", async () => {
+  const root = await mkdtemp(join(tmpdir(), "ignore-hub-lock-"));
+  const lockfilePath = resolveLockfilePath(join(root, ".gitignore"));
+  const lockfile = buildTemplateLockfile({
+    dedupe: "semantic",
+    output: "node_modules/\n",
+    sourceRef: "v1",
+    templates: TEMPLATES,
+    includeWatermark: false,
+    useSimpleSectionSeparator: true,
+  });
+
+  try {
+    expect(lockfilePath).toBe(join(root, "ignore-hub.lock"));
+    expect(await readTemplateLockfile(lockfilePath)).toBeNull();
+    await writeTemplateLockfile(lockfilePath, lockfile);
+    expect(await readTemplateLockfile(lockfilePath)).toEqual(lockfile);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("reads lockfiles written before the dedupe option existed", async () => {
+  const root = await mkdtemp(join(tmpdir(), "ignore-hub-lock-"));
+  const lockfilePath = resolveLockfilePath(join(root, ".gitignore"));
+  const { dedupe: _dedupe, ...options } = buildTemplateLockfile({
+    dedupe: "exact",
+    output: "",
+    sourceRef: "main",
+    templates: TEMPLATES,
+    includeWatermark: true,
+    useSimpleSectionSeparator: false,
+  }).options;
+
+  try {
+    await writeFile(
+      lockfilePath,
+      JSON.stringify({
+        lockfileVersion: 1,
+        options,
+        outputHash: "",
+        sourceRef: "main",
+        templates: [],
+      })
+    );
+    expect((await readTemplateLockfile(lockfilePath))?.options).toEqual(
+      options
+    );
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
@@ -5,10 +5,27 @@ import {
   GENERATED_BLOCK_END,
   GENERATED_BLOCK_START,
   mergeGitignore,
+  mergeGitignoreWithEdits,
+  parseGeneratedSections,
+  readGeneratedMetadata,
   stripGeneratedBlock,
 } from "../src/domain/merge-gitignore";
+import { describeRuleConflict } from "../src/domain/rule-order";
 import type { TemplateMeta, TemplateWithSource } from "../src/domain/types";
 
+function mergeWithEdits(
+  existingContent: string | null,
+  nodeSource: string,
+  previousBody: string[] | null = null
+) {
+  return mergeGitignoreWithEdits({
+    existingContent,
+    metadata: METADATA,
+    previousBody,
+    templates: withNodeSource(nodeSource),
+  });
+}
+
 const TEMPLATES: TemplateWithSource[] = [
   {
     meta: {
@@ -70,6 +87,257 @@ test("re-running merge replaces generated block instead of appending", () => {
   );
 });
 
+test("section headers carry the template id", () => {
+  const merged = mergeGitignore({
+    existingContent: null,
+    templates: TEMPLATES,
+  });
+
+  expect(merged).toContain("### framework: Node [Node]");
+  expect(merged).toContain("### framework: Nextjs [Nextjs]");
+});
+
+test("parseGeneratedSections reads sections back from the block", () => {
+  const merged = mergeGitignore({
+    existingContent: "# Manual\nvenv/\n",
+    templates: TEMPLATES,
+  });
+
+  expect(parseGeneratedSections(merged)).toEqual([
+    {
+      id: "Node",
+      kind: "framework",
+      lines: ["# Node", "node_modules/", "dist"],
+      name: "Node",
+    },
+    {
+      id: "Nextjs",
+      kind: "framework",
+      lines: ["# Next", ".next"],
+      name: "Nextjs",
+    },
+  ]);
+});
+
+test("parseGeneratedSections accepts headers without an id", () => {
+  const content = [
+    "### global: macOS",
+    "ignored-outside-block",
+    GENERATED_BLOCK_START,
+    "### global: macOS",
+    ".DS_Store",
+    GENERATED_BLOCK_END,
+  ].join("\n");
+
+  expect(parseGeneratedSections(content)).toEqual([
+    { id: null, kind: "global", lines: [".DS_Store"], name: "macOS" },
+  ]);
+});
+
+const BLOB_SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+const METADATA = {
+  host: null,
+  options: { dedupe: "semantic" },
+  ref: "v1.0",
+  repo: "github/gitignore",
+  version: "1.2.3",
+};
+
+function withNodeSource(source: string): TemplateWithSource[] {
+  return [{ meta: TEMPLATES[0]?.meta as TemplateMeta, source }];
+}
+
+test("records generation metadata after the start marker", () => {
+  const merged = mergeGitignore({
+    existingContent: "# Manual\nvenv/\n",
+    metadata: METADATA,
+    templates: TEMPLATES,
+  });
+
+  expect(merged).toContain(
+    `${GENERATED_BLOCK_START}\n# ignore-hub: 1.2.3\n# ref: v1.0\n# repo: github/gitignore\n# templates: Node, Nextjs\n# options: dedupe=semantic\n# base: `
+  );
+  expect(readGeneratedMetadata(merged)).toEqual({
+    base: expect.stringMatching(BLOB_SHA_PATTERN),
+    host: null,
+    options: { dedupe: "semantic" },
+    ref: "v1.0",
+    repo: "github/gitignore",
+    templates: ["Node", "Nextjs"],
+    version: "1.2.3",
+  });
+  expect(parseGeneratedSections(merged).map((section) => section.id)).toEqual([
+    "Node",
+    "Nextjs",
+  ]);
+});
+
+test("readGeneratedMetadata returns null for blocks without metadata", () => {
+  const merged = mergeGitignore({
+    existingContent: null,
+    templates: TEMPLATES,
+  });
+
+  expect(readGeneratedMetadata(merged)).toBeNull();
+  expect(readGeneratedMetadata("node_modules/\n")).toBeNull();
+});
+
+test("keeps hand edits inside the block when upstream changes elsewhere", () => {
+  const first = mergeWithEdits(null, "node_modules/\n.idea/\ndist/\n");
+  const edited = first.content.replace("\n.idea/\n", "\n# .idea/\n");
+
+  const second = mergeWithEdits(
+    edited,
+    "node_modules/\n.idea/\ndist/\ncoverage/\n",
+    first.generatedBody.split("\n")
+  );
+
+  expect(second.conflicts).toBe(0);
+  expect(second.content).toContain("# .idea/\ndist/\ncoverage/");
+  expect(second.content).not.toContain("\n.idea/");
+});
+
+test("keeps hand edits without a cached base while upstream is unchanged", () => {
+  const first = mergeWithEdits(null, "node_modules/\n.idea/\n");
+  const edited = first.content.replace("\n.idea/\n", "\n# .idea/\n");
+
+  expect(mergeWithEdits(edited, "node_modules/\n.idea/\n").content).toContain(
+    "# .idea/"
+  );
+});
+
+test("falls back to a two-way merge when the base is not cached", () => {
+  const first = mergeWithEdits(null, "node_modules/\n.idea/\ndist/\n");
+  const edited = first.content.replace("\n.idea/\n", "\n# .idea/\n");
+
+  const second = mergeWithEdits(edited, "node_modules/\n.idea/\nbuild/\n");
+
+  expect(second.conflicts).toBe(1);
+  expect(second.content).toContain(
+    "node_modules/\n<<<<<<< local\n# .idea/\ndist/\n=======\n.idea/\nbuild/\n>>>>>>> upstream\n"
+  );
+});
+
+test("marks conflicting edits with git-style markers", () => {
+  const first = mergeWithEdits(null, "node_modules/\n.idea/\n");
+  const edited = first.content.replace("\n.idea/\n", "\n.idea/*.xml\n");
+
+  const second = mergeWithEdits(
+    edited,
+    "node_modules/\n.idea/**\n",
+    first.generatedBody.split("\n")
+  );
+
+  expect(second.conflicts).toBe(1);
+  expect(second.content).toContain(
+    "<<<<<<< local\n.idea/*.xml\n=======\n.idea/**\n>>>>>>> upstream"
+  );
+  expect(() =>
+    mergeWithEdits(second.content, "node_modules/\n.idea/**\n")
+  ).toThrow("conflict markers");
+});
+
+function template(id: string, source: string): TemplateWithSource {
+  return {
+    meta: { id, kind: "language", name: id, path: `${id}.gitignore` },
+    source,
+  };
+}
+
+test("keeps a repeated rule when a negation came in between", () => {
+  const result = mergeGitignoreWithEdits({
+    existingContent: null,
+    templates: [
+      template("A", "*.log\n!keep.log\n"),
+      template("B", "*.log\nbuild/\n"),
+      template("C", "build/\n"),
+    ],
+  });
+
+  const lines = result.content.split("\n");
+  expect(lines.filter((line) => line === "*.log")).toHaveLength(2);
+  expect(lines.filter((line) => line === "build/")).toHaveLength(1);
+  expect(result.ruleConflicts.map(describeRuleConflict)).toEqual([
+    '"*.log" from B overrides "!keep.log" from A',
+  ]);
+});
+
+test("reports rules that flip another source's rule", () => {
+  const result = mergeGitignoreWithEdits({
+    existingContent: "!keep.me\n",
+    templates: [template("A", "!dist/\n"), template("B", "dist/\nkeep.me\n")],
+  });
+
+  expect(result.content).toContain("### language: B [B]\ndist/\nkeep.me");
+  expect(result.ruleConflicts.map(describeRuleConflict)).toEqual([
+    '"dist/" from B overrides "!dist/" from A',
+    '"keep.me" from B overrides "!keep.me" from manual rules',
+  ]);
+});
+
+test("reports globs that flip a literal rule of another source", () => {
+  const result = mergeGitignoreWithEdits({
+    existingContent: "!keep.me\n*.log\n",
+    templates: [
+      template("A", "*.me\n!debug.log\n"),
+      template("B", "*.tmp\n!*.tmp\n"),
+    ],
+  });
+
+  expect(result.ruleConflicts.map(describeRuleConflict)).toEqual([
+    '"*.me" from A overrides "!keep.me" from manual rules',
+    '"!debug.log" from A overrides "*.log" from manual rules',
+  ]);
+});
+
+test("reports negations inside a directory another source excludes", () => {
+  const result = mergeGitignoreWithEdits({
+    existingContent: "build/\n",
+    templates: [template("A", "!build/keep\n!build\n")],
+  });
+
+  expect(result.ruleConflicts.map(describeRuleConflict)).toEqual([
+    '"!build/keep" from A cannot re-include a path inside "build/" from manual rules',
+    '"!build" from A overrides "build/" from manual rules',
+  ]);
+});
+
+test("reports a directory rule that excludes another source's negation", () => {
+  const result = mergeGitignoreWithEdits({
+    existingContent: "!build/keep\n",
+    templates: [template("A", "build/\n")],
+  });
+
+  expect(result.ruleConflicts.map(describeRuleConflict)).toEqual([
+    '"build/" from A overrides "!build/keep" from manual rules',
+  ]);
+});
+
+test("dedupes rules by meaning unless told otherwise", () => {
+  const templates = [
+    template("A", "node_modules/\n/dist/\n"),
+    template("B", "**/node_modules/\ndist/\n"),
+  ];
+  const rulesFor = (dedupe: "exact" | "semantic" | "off") =>
+    parseGeneratedSections(
+      mergeGitignore({ dedupe, existingContent: null, templates })
+    )[1]?.lines;
+
+  expect(rulesFor("semantic")).toEqual(["dist/"]);
+  expect(rulesFor("exact")).toEqual(["**/node_modules/", "dist/"]);
+  expect(rulesFor("off")).toEqual(["**/node_modules/", "dist/"]);
+  expect(
+    parseGeneratedSections(
+      mergeGitignore({
+        dedupe: "off",
+        existingContent: null,
+        templates: [template("A", "*.log\n"), template("B", "*.log\n")],
+      })
+    )[1]?.lines
+  ).toEqual(["*.log"]);
+});
+
 test("stripGeneratedBlock preserves manual content", () => {
   const existing = `# Manual\nvenv/\n\n${GENERATED_BLOCK_START}\n### framework: Node\nnode_modules/\n${GENERATED_BLOCK_END}\n`;
   const stripped = stripGeneratedBlock(existing);
@@ -79,7 +347,9 @@ test("stripGeneratedBlock preserves manual content", () => {
 test("collectRuleSet includes only non-comment non-empty rules", () => {
   const rules = collectRuleSet("# Comment\n\nnode_modules/\n  dist\n");
   expect(rules.has("node_modules/")).toBe(true);
-  expect(rules.has("dist")).toBe(true);
+  // Leading spaces are part of the pattern in git.
+  expect(rules.has("  dist")).toBe(true);
+  expect(rules.has("dist")).toBe(false);
   expect(rules.has("# Comment")).toBe(false);
 });
 
@@ -1,4 +1,5 @@
 import { expect, test } from "bun:test";
+import { resolve } from "node:path";
 import { parseCliOptions } from "../src/cli/parse-args";
 
 test("parses comma-separated template names", () => {
@@ -84,3 +85,161 @@ test("allows template simplicity flag to adjust both separators and watermark",
   expect(result.options.includeWatermark).toBe(false);
   expect(result.options.useSimpleSectionSeparator).toBe(true);
 });
+
+test("supports offline mode", () => {
+  const result = parseCliOptions(["--offline", "-t", "node"]);
+  expect(result.options.offline).toBe(true);
+  expect(result.options.refresh).toBe(false);
+});
+
+test("rejects combining refresh and offline", () => {
+  expect(() => parseCliOptions(["--refresh", "--offline"])).toThrow(
+    "--refresh cannot be combined with --offline"
+  );
+});
+
+test("defaults template ref to main", () => {
+  const result = parseCliOptions([]);
+  expect(result.options.ref).toBe("main");
+});
+
+test("parses pinned template ref", () => {
+  const result = parseCliOptions(["--ref", "4488915", "-t", "node"]);
+  expect(result.options.ref).toBe("4488915");
+  expect(result.options.templates).toEqual(["node"]);
+});
+
+test("throws on missing ref value", () => {
+  expect(() => parseCliOptions(["--ref"])).toThrow("Missing value for --ref");
+});
+
+test("supports frozen regeneration", () => {
+  const result = parseCliOptions(["--frozen", "--offline"]);
+  expect(result.options.frozen).toBe(true);
+  expect(result.options.offline).toBe(true);
+});
+
+test("rejects frozen mode with explicit templates", () => {
+  expect(() => parseCliOptions(["--frozen", "-t", "node"])).toThrow(
+    "--frozen reads templates from ignore-hub.lock"
+  );
+});
+
+test("parses incremental --add and --remove lists", () => {
+  const result = parseCliOptions([
+    "--add",
+    "python,go",
+    "--add",
+    "rust",
+    "--remove",
+    "node",
+  ]);
+  expect(result.options.addTemplates).toEqual(["python", "go", "rust"]);
+  expect(result.options.removeTemplates).toEqual(["node"]);
+});
+
+test("rejects --add with --template or simple separators", () => {
+  expect(() => parseCliOptions(["--add", "go", "-t", "node"])).toThrow(
+    "cannot be combined with --template or --auto"
+  );
+  expect(() => parseCliOptions(["--remove", "go", "-s"])).toThrow(
+    "need the IGNORE-HUB markers"
+  );
+});
+
+test("parses fetch pipeline limits", () => {
+  const result = parseCliOptions([
+    "--concurrency",
+    "3",
+    "--timeout",
+    "5000",
+    "--retries",
+    "0",
+  ]);
+  expect(result.options.concurrency).toBe(3);
+  expect(result.options.timeoutMs).toBe(5000);
+  expect(result.options.retries).toBe(0);
+});
+
+test("rejects non-positive concurrency", () => {
+  expect(() => parseCliOptions(["--concurrency", "0"])).toThrow(
+    "Invalid value for --concurrency: 0 (expected an integer >= 1)"
+  );
+});
+
+test("validates --max-age", () => {
+  expect(parseCliOptions(["--max-age", "12h"]).options.cacheMaxAge).toBe("12h");
+  expect(() => parseCliOptions(["--max-age", "soon"])).toThrow(
+    'Invalid max age "soon"'
+  );
+});
+
+test("parses cache commands", () => {
+  expect(parseCliOptions(["cache", "info"]).command).toEqual({
+    action: "info",
+    kind: "cache",
+  });
+  expect(
+    parseCliOptions(["cache", "export", "/tmp/seed.ih.gz"]).command
+  ).toEqual({ action: "export", file: "/tmp/seed.ih.gz", kind: "cache" });
+  expect(parseCliOptions([]).command).toBeNull();
+  expect(parseCliOptions(["update", "-y"]).command).toEqual({
+    kind: "update",
+  });
+  expect(parseCliOptions(["update", "--yes"]).options.yes).toBe(true);
+  expect(() => parseCliOptions(["update", "-t", "node"])).toThrow(
+    "ih update reads templates from the generated block"
+  );
+  expect(() => parseCliOptions(["cache", "import"])).toThrow(
+    "Missing file for cache import"
+  );
+  expect(() => parseCliOptions(["node"])).toThrow("Unknown argument: node");
+});
+
+test("resolves --cache-dir against the working directory", () => {
+  expect(parseCliOptions(["--cache-dir", "ci-cache"]).options.cacheDir).toBe(
+    resolve(process.cwd(), "ci-cache")
+  );
+});
+
+test("validates --proxy", () => {
+  expect(parseCliOptions(["--proxy", "http://corp:8080"]).options.proxy).toBe(
+    "http://corp:8080/"
+  );
+  expect(parseCliOptions([]).options.proxy).toBeNull();
+  expect(() => parseCliOptions(["--proxy", "corp:8080"])).toThrow(
+    "Invalid proxy URL"
+  );
+});
+
+test("parses --dedupe and defaults to semantic", () => {
+  expect(parseCliOptions([]).options.dedupe).toBe("semantic");
+  expect(parseCliOptions(["--dedupe", "exact"]).options.dedupe).toBe("exact");
+  expect(parseCliOptions(["--dedupe=off"]).options.dedupe).toBe("off");
+  expect(() => parseCliOptions(["--dedupe=fuzzy"])).toThrow(
+    'Invalid dedupe mode "fuzzy"'
+  );
+});
+
+test("parses check with its paths", () => {
+  expect(parseCliOptions(["check", "dist", "src/a.ts"]).command).toEqual({
+    kind: "check",
+    paths: ["dist", "src/a.ts"],
+  });
+  expect(() => parseCliOptions(["check"])).toThrow("Missing path for check");
+});
+
+test("accepts --dry-run --impact only for direct generation", () => {
+  const { options } = parseCliOptions(["-t", "node", "--dry-run", "--impact"]);
+  expect(options.dryRun).toBe(true);
+  expect(options.impact).toBe(true);
+  expect(() => parseCliOptions(["-t", "node", "--impact"])).toThrow(
+    "--impact is only available together with --dry-run"
+  );
+  expect(() => parseCliOptions(["--dry-run"])).toThrow(
+    "--dry-run previews direct generation"
+  );
+  expect(() => parseCliOptions(["update", "--dry-run"])).toThrow(
+    "--dry-run previews direct generation"
+  );
+});
@@ -0,0 +1,83 @@
+import { expect, test } from "bun:test";
+import {
+  buildSourcePriority,
+  describeTemplateRegistry,
+  findTemplateRegistry,
+  resolveTemplateRegistries,
+} from "../src/data/registries";
+import type { TemplateRegistry } from "../src/domain/types";
+
+test("defaults to the github/gitignore registry at the requested ref", () => {
+  expect(
+    resolveTemplateRegistries({ ref: "v1", registries: [], sourceDir: null })
+  ).toEqual([{ kind: "github", name: "github", priority: 0, ref: "v1" }]);
+});
+
+test("a source directory replaces the default registry", () => {
+  expect(
+    resolveTemplateRegistries({
+      ref: "main",
+      registries: [],
+      sourceDir: "/srv/gitignore",
+    })
+  ).toEqual([
+    { kind: "directory", name: "local", path: "/srv/gitignore", priority: 0 },
+  ]);
+});
+
+test("a source directory joins configured registries as the local source", () => {
+  expect(
+    resolveTemplateRegistries({
+      ref: "main",
+      registries: [
+        { kind: "directory", name: "acme", path: "/srv/acme", priority: 5 },
+      ],
+      sourceDir: "/srv/gitignore",
+    }).map((registry) => registry.name)
+  ).toEqual(["acme", "local"]);
+});
+
+test("configured registries inherit the ref and report priorities", () => {
+  const registries = resolveTemplateRegistries({
+    ref: "main",
+    registries: [
+      { kind: "github", name: "github", priority: 1 },
+      { kind: "directory", name: "acme", path: "/srv/acme", priority: 5 },
+    ],
+    sourceDir: null,
+  });
+
+  expect(registries[0]).toEqual({
+    kind: "github",
+    name: "github",
+    priority: 1,
+    ref: "main",
+  });
+  expect(buildSourcePriority(registries)).toEqual({ github: 1, acme: 5 });
+  expect(findTemplateRegistry("acme", registries).kind).toBe("directory");
+  expect(findTemplateRegistry(undefined, registries).name).toBe("github");
+  expect(() => findTemplateRegistry("missing", registries)).toThrow(
+    'Unknown template source "missing"'
+  );
+});
+
+test("mirror settings apply to github registries", () => {
+  const registries = resolveTemplateRegistries({
+    apiUrl: "https://ghe.example.com/api/v3",
+    ref: "main",
+    registries: [],
+    repo: null,
+    sourceDir: null,
+  });
+
+  expect(registries[0]).toEqual({
+    apiUrl: "https://ghe.example.com/api/v3",
+    kind: "github",
+    name: "github",
+    priority: 0,
+    ref: "main",
+  });
+  expect(describeTemplateRegistry(registries[0] as TemplateRegistry)).toBe(
+    "github/gitignore @ main (ghe.example.com)"
+  );
+});
@@ -0,0 +1,38 @@
+import { expect, test } from "bun:test";
+import { diffGeneratedSections } from "../src/domain/section-diff";
+
+test("diffs rules per section and matches legacy headers by name", () => {
+  const diffs = diffGeneratedSections(
+    [
+      { id: null, kind: "global", lines: [".DS_Store"], name: "macOS" },
+      { id: "Node", kind: "framework", lines: ["dist/"], name: "Node" },
+      { id: "Go", kind: "language", lines: ["vendor/"], name: "Go" },
+    ],
+    [
+      {
+        id: "Global/macOS",
+        kind: "global",
+        lines: ["# Finder", ".DS_Store"],
+        name: "macOS",
+      },
+      { id: "Node", kind: "framework", lines: ["build/"], name: "Node" },
+    ]
+  );
+
+  expect(diffs).toEqual([
+    { added: [], id: "Global/macOS", removed: [], status: "unchanged" },
+    { added: ["build/"], id: "Node", removed: ["dist/"], status: "changed" },
+    { added: [], id: "Go", removed: ["vendor/"], status: "removed" },
+  ]);
+});
+
+test("reports rules as written, not in their canonical form", () => {
+  const diffs = diffGeneratedSections(
+    [{ id: "Node", kind: "framework", lines: ["foo"], name: "Node" }],
+    [{ id: "Node", kind: "framework", lines: ["**/foo"], name: "Node" }]
+  );
+
+  expect(diffs).toEqual([
+    { added: ["**/foo"], id: "Node", removed: ["foo"], status: "changed" },
+  ]);
+});
@@ -77,3 +77,83 @@ test("reports unknown template names", () => {
     matches: [],
   });
 });
+
+const MULTI_SOURCE_INDEX: TemplateMeta[] = [
+  {
+    id: "github:Python",
+    name: "Python",
+    path: "Python.gitignore",
+    kind: "language",
+    source: "github",
+  },
+  {
+    id: "acme:Python",
+    name: "Python",
+    path: "Python.gitignore",
+    kind: "language",
+    source: "acme",
+  },
+  {
+    id: "acme:Backend",
+    name: "Backend",
+    path: "Backend.gitignore",
+    kind: "framework",
+    source: "acme",
+  },
+];
+
+test("reports cross-source ambiguity without a source priority", () => {
+  const result = resolveTemplateQueries(MULTI_SOURCE_INDEX, ["python"]);
+  expect(result.selected).toEqual([]);
+  expect(result.issues[0]).toMatchObject({
+    type: "cross-source",
+    rawQuery: "python",
+  });
+  expect(result.issues[0]?.matches.map((match) => match.id)).toEqual([
+    "github:Python",
+    "acme:Python",
+  ]);
+});
+
+test("resolves unqualified names by source priority", () => {
+  const result = resolveTemplateQueries(MULTI_SOURCE_INDEX, ["python"], {
+    acme: 10,
+    github: 0,
+  });
+  expect(result.issues).toEqual([]);
+  expect(result.selected.map((template) => template.id)).toEqual([
+    "acme:Python",
+  ]);
+});
+
+test("resolves namespaced ids directly", () => {
+  const result = resolveTemplateQueries(MULTI_SOURCE_INDEX, [
+    "github:Python",
+    "backend",
+  ]);
+  expect(result.issues).toEqual([]);
+  expect(result.selected.map((template) => template.id)).toEqual([
+    "github:Python",
+    "acme:Backend",
+  ]);
+});
+
+test("selects community templates by name", () => {
+  const result = resolveTemplateQueries(
+    [
+      ...TEMPLATE_INDEX,
+      {
+        id: "community/JavaScript/Vue",
+        name: "Vue",
+        path: "community/JavaScript/Vue.gitignore",
+        kind: "community",
+        category: "JavaScript",
+      },
+    ],
+    ["vue"]
+  );
+  expect(result.issues).toEqual([]);
+  expect(result.selected.map((template) => template.id)).toEqual([
+    "community/JavaScript/Vue",
+  ]);
+});
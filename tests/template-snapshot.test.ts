@@ -0,0 +1,95 @@
+import { afterEach, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadTemplateIndex, loadTemplateSource } from "../src/data/cache-store";
+import { DEFAULT_TEMPLATE_ORIGIN } from "../src/data/github-client";
+import { resolveTemplateRegistries } from "../src/data/registries";
+import {
+  buildTemplateSnapshot,
+  findSnapshotIndex,
+  readSnapshotSource,
+} from "../src/data/template-snapshot";
+import { createGitHubTemplateSources } from "../src/data/template-source";
+import type { TemplateMeta } from "../src/domain/types";
+
+const NODE_TEMPLATE: TemplateMeta = {
+  id: "Node",
+  kind: "language",
+  name: "Node",
+  path: "Node.gitignore",
+  sha: "a".repeat(40),
+};
+
+const snapshot = buildTemplateSnapshot(
+  {
+    fetchedAt: "2026-01-01T00:00:00.000Z",
+    origin: DEFAULT_TEMPLATE_ORIGIN,
+    sourceRef: "main",
+    templates: [NODE_TEMPLATE],
+  },
+  "0123456789abcdef0123456789abcdef01234567",
+  [{ meta: NODE_TEMPLATE, source: "node_modules/\n" }]
+);
+
+afterEach(() => {
+  Reflect.deleteProperty(globalThis, "__IGNORE_HUB_SNAPSHOT__");
+});
+
+test("only matches the ref and endpoint the snapshot was built from", () => {
+  expect(findSnapshotIndex(snapshot, "main", DEFAULT_TEMPLATE_ORIGIN)).toBe(
+    snapshot.index
+  );
+  expect(findSnapshotIndex(snapshot, "v1.0", DEFAULT_TEMPLATE_ORIGIN)).toBe(
+    null
+  );
+  expect(
+    findSnapshotIndex(
+      snapshot,
+      "main",
+      "https://ghe.example.com/api/v3/repos/github/gitignore"
+    )
+  ).toBe(null);
+  expect(findSnapshotIndex(null, "main", DEFAULT_TEMPLATE_ORIGIN)).toBe(null);
+});
+
+test("reads snapshot bodies by blob SHA", () => {
+  expect(readSnapshotSource(snapshot, NODE_TEMPLATE)).toBe("node_modules/\n");
+  expect(
+    readSnapshotSource(snapshot, { ...NODE_TEMPLATE, sha: "b".repeat(40) })
+  ).toBe(null);
+});
+
+test("falls back to the embedded snapshot without cache or network", async () => {
+  Reflect.set(globalThis, "__IGNORE_HUB_SNAPSHOT__", snapshot);
+  const cacheDir = await mkdtemp(join(tmpdir(), "ignore-hub-snapshot-"));
+  const registries = resolveTemplateRegistries({
+    ref: "main",
+    registries: [],
+    sourceDir: null,
+  });
+  try {
+    const result = await loadTemplateIndex({
+      cacheDir,
+      maxAgeMs: null,
+      offline: true,
+      templateSources: createGitHubTemplateSources(),
+      refresh: false,
+      registries,
+    });
+
+    expect(result.source).toBe("embedded");
+    expect(result.index.templates.map(({ id }) => id)).toEqual(["Node"]);
+    expect(result.warning).toContain("commit 0123456, 2026-01-01");
+    expect(
+      await loadTemplateSource(NODE_TEMPLATE, {
+        cacheDir,
+        offline: true,
+        templateSources: createGitHubTemplateSources(),
+        registries,
+      })
+    ).toBe("node_modules/\n");
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runDirectGeneration } from "../src/cli/direct-generation";
+import { parseCliOptions } from "../src/cli/parse-args";
+import { loadTemplateIndex, loadTemplateSource } from "../src/data/cache-store";
+import { resolveGitHubEndpoint } from "../src/data/github-client";
+import { createMemoryTemplateSource } from "../src/data/memory-source";
+import { resolveTemplateRegistries } from "../src/data/registries";
+import { createGitHubTemplateSource } from "../src/data/template-source";
+import type {
+  TemplateSource,
+  TemplateSourceResolver,
+} from "../src/domain/types";
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "ignore-hub-template-source-"));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+const registries = resolveTemplateRegistries({
+  ref: "main",
+  registries: [],
+  sourceDir: null,
+});
+
+function countRequests(source: TemplateSource): {
+  requests: string[];
+  templateSources: TemplateSourceResolver;
+} {
+  const requests: string[] = [];
+  const counted: TemplateSource = {
+    ...source,
+    fetchTemplate: (path, ref, request) => {
+      requests.push(`body ${path}`);
+      return source.fetchTemplate(path, ref, request);
+    },
+    listTemplates: (ref, request) => {
+      requests.push(`list ${ref}`);
+      return source.listTemplates(ref, request);
+    },
+  };
+  return { requests, templateSources: () => counted };
+}
+
+test("drives the cache from an in-memory source", async () => {
+  const templates: Record<string, string> = {
+    "Node.gitignore": "node_modules/\n",
+    "README.md": "not a template\n",
+  };
+  const { requests, templateSources } = countRequests(
+    createMemoryTemplateSource({ templates })
+  );
+  const load = (refresh: boolean) =>
+    loadTemplateIndex({
+      cacheDir: root,
+      maxAgeMs: null,
+      offline: false,
+      refresh,
+      registries,
+      templateSources,
+    });
+
+  const first = await load(false);
+  expect(first.source).toBe("network");
+  expect(first.index.templates.map(({ id }) => id)).toEqual(["Node"]);
+  expect((await load(false)).source).toBe("cache");
+
+  templates["Python.gitignore"] = "__pycache__/\n";
+  const refreshed = await load(true);
+  expect(refreshed.index.templates.map(({ id }) => id)).toEqual([
+    "Node",
+    "Python",
+  ]);
+  expect(requests).toEqual(["list main", "list main"]);
+
+  const [node] = refreshed.index.templates;
+  if (!node) {
+    throw new Error("expected Node template");
+  }
+  const options = {
+    cacheDir: root,
+    offline: false,
+    registries,
+    templateSources,
+  };
+  expect(await loadTemplateSource(node, options)).toBe("node_modules/\n");
+  expect(await loadTemplateSource(node, options)).toBe("node_modules/\n");
+  expect(requests.filter((request) => request.startsWith("body"))).toEqual([
+    "body Node.gitignore",
+  ]);
+});
+
+test("runs direct generation without GitHub", async () => {
+  const output = join(root, ".gitignore");
+  const { options } = parseCliOptions([
+    "--template",
+    "Node",
+    "--output",
+    output,
+    "--cache-dir",
+    join(root, "cache"),
+  ]);
+  const source = createMemoryTemplateSource({
+    templates: { "Node.gitignore": "node_modules/\n" },
+  });
+
+  const originalWrite = process.stdout.write;
+  process.stdout.write = (() => true) as typeof process.stdout.write;
+  try {
+    await runDirectGeneration(options, () => source);
+  } finally {
+    process.stdout.write = originalWrite;
+  }
+
+  expect(await readFile(output, "utf8")).toContain("node_modules/");
+  expect(await readFile(join(root, "ignore-hub.lock"), "utf8")).toContain(
+    '"Node"'
+  );
+});
+
+test("sends GitHub requests through an injected fetch", async () => {
+  const urls: string[] = [];
+  const source = createGitHubTemplateSource(resolveGitHubEndpoint(), {
+    fetch: ((input: string | URL | Request) => {
+      urls.push(String(input));
+      return Promise.resolve(new Response("dist/\n"));
+    }) as typeof fetch,
+  });
+
+  const response = await source.fetchTemplate("Node.gitignore", "v1.0");
+
+  expect(response.notModified ? null : response.value).toBe("dist/\n");
+  expect(urls).toEqual([
+    "https://raw.githubusercontent.com/github/gitignore/v1.0/Node.gitignore",
+  ]);
+  expect(source.describeRevision("v1.0")).toBe("github/gitignore @ v1.0");
+});
@@ -76,3 +76,51 @@ test("filterItems can search by kind", () => {
     filterItems(templates, "framework").map((item: TemplateMeta) => item.name)
   ).toEqual(["Node"]);
 });
+
+test("filterItems can search by template source", () => {
+  const templates: TemplateMeta[] = [
+    {
+      id: "acme:Backend",
+      name: "Backend",
+      kind: "framework",
+      path: "Backend.gitignore",
+      source: "acme",
+    },
+    {
+      id: "github:Python",
+      name: "Python",
+      kind: "language",
+      path: "Python.gitignore",
+      source: "github",
+    },
+  ];
+
+  expect(
+    filterItems(templates, "acme").map((item: TemplateMeta) => item.name)
+  ).toEqual(["Backend"]);
+});
+
+test("filterItems can search community templates by category", () => {
+  const templates: TemplateMeta[] = [
+    {
+      id: "community/JavaScript/Vue",
+      name: "Vue",
+      kind: "community",
+      path: "community/JavaScript/Vue.gitignore",
+      category: "JavaScript",
+    },
+    {
+      id: "Python",
+      name: "Python",
+      kind: "language",
+      path: "Python.gitignore",
+    },
+  ];
+
+  expect(
+    filterItems(templates, "community").map((item: TemplateMeta) => item.name)
+  ).toEqual(["Vue"]);
+  expect(
+    filterItems(templates, "javascript").map((item: TemplateMeta) => item.name)
+  ).toEqual(["Vue"]);
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runDirectGeneration } from "../src/cli/direct-generation";
+import { parseCliOptions } from "../src/cli/parse-args";
+import {
+  renderUpdateSummary,
+  runUpdateCommand,
+} from "../src/cli/update-command";
+import { createMemoryTemplateSource } from "../src/data/memory-source";
+import type { CliOptions } from "../src/domain/types";
+
+let root: string;
+let templates: Record<string, string>;
+let written: string[];
+const originalWrite = process.stdout.write;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "ignore-hub-update-"));
+  templates = {
+    "Go.gitignore": "vendor/\n",
+    "Node.gitignore": "node_modules/\ndist/\n",
+  };
+  written = [];
+  process.stdout.write = ((chunk: string) => {
+    written.push(chunk);
+    return true;
+  }) as typeof process.stdout.write;
+});
+
+afterEach(async () => {
+  process.stdout.write = originalWrite;
+  await rm(root, { recursive: true, force: true });
+});
+
+function optionsFor(args: string[]): CliOptions {
+  return parseCliOptions([
+    ...args,
+    "--output",
+    join(root, ".gitignore"),
+    "--cache-dir",
+    join(root, "cache"),
+    "--refresh",
+  ]).options;
+}
+
+const templateSources = () => createMemoryTemplateSource({ templates });
+
+test("updates the block from upstream and reports rule changes", async () => {
+  await runDirectGeneration(optionsFor(["-t", "Node,Go"]), templateSources);
+  templates["Node.gitignore"] = "node_modules/\n.env\n";
+
+  await runUpdateCommand(optionsFor(["update", "--yes"]), templateSources);
+
+  const content = await readFile(join(root, ".gitignore"), "utf8");
+  expect(content).toContain(".env");
+  expect(content).not.toContain("dist/");
+  const report = written.join("");
+  expect(report).toContain("  Node: +1 -1\n    + .env\n    - dist/");
+  expect(report).toContain("  Go: unchanged");
+});
+
+test("leaves the file alone when the update is declined", async () => {
+  await runDirectGeneration(optionsFor(["-t", "Node"]), templateSources);
+  const before = await readFile(join(root, ".gitignore"), "utf8");
+  templates["Node.gitignore"] = "node_modules/\n";
+
+  await runUpdateCommand(optionsFor(["update"]), templateSources, () =>
+    Promise.resolve(false)
+  );
+
+  expect(await readFile(join(root, ".gitignore"), "utf8")).toBe(before);
+});
+
+test("fails without a generated block", async () => {
+  await expect(
+    runUpdateCommand(optionsFor(["update", "--yes"]), templateSources)
+  ).rejects.toThrow("No IgnoreHub generated block");
+});
+
+test("fails when a section header no longer matches the recorded templates", async () => {
+  await runDirectGeneration(optionsFor(["-t", "Node,Go"]), templateSources);
+  const output = join(root, ".gitignore");
+  await writeFile(
+    output,
+    (await readFile(output, "utf8")).replace("### language: Go [Go]\n", "")
+  );
+
+  await expect(
+    runUpdateCommand(optionsFor(["update", "--yes"]), templateSources)
+  ).rejects.toThrow(
+    "records the templates Node, Go, but its section headers are for Node."
+  );
+});
+
+test("renders added and removed sections", () => {
+  expect(
+    renderUpdateSummary([
+      { added: ["a"], id: "Go", removed: [], status: "added" },
+      { added: [], id: "Node", removed: [], status: "unchanged" },
+    ])
+  ).toBe("  Go (added): +1 -0\n    + a\n  Node: unchanged");
+});